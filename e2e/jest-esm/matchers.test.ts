@@ -0,0 +1,21 @@
+import { describe, expect, it } from '@jest/globals';
+import { fetchMock, setupFetchMock } from 'msw-fetch-mock';
+import 'msw-fetch-mock/jest';
+
+const API_BASE = 'http://localhost:8787';
+
+setupFetchMock({ runner: 'jest' });
+
+describe('custom matchers (@jest/globals)', () => {
+	it('should type and run the fetch matchers on the imported expect', async () => {
+		fetchMock.get(API_BASE).intercept({ path: '/posts', method: 'POST' }).reply(201, {});
+
+		await fetch(`${API_BASE}/posts`, { method: 'POST', body: JSON.stringify({ title: 'Hi' }) });
+
+		expect(fetchMock).toHaveFetched({ method: 'POST', path: '/posts' });
+		expect(fetchMock.calls).toHaveFetchedTimes(1, /\/posts/);
+		expect(fetchMock).toHaveFetchedWithBody({ title: 'Hi' });
+		expect(fetchMock).not.toHaveFetched({ method: 'GET' });
+		expect(fetchMock).toHaveNoPendingInterceptors();
+	});
+});
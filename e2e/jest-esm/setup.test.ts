@@ -0,0 +1,23 @@
+import { describe, expect, it } from '@jest/globals';
+import { fetchMock, setupFetchMock } from 'msw-fetch-mock';
+
+const API_BASE = 'http://localhost:8787';
+
+setupFetchMock({ runner: 'jest' });
+
+describe('setupFetchMock (jest)', () => {
+	it('should activate and tag interceptors with the test name', async () => {
+		fetchMock.get(API_BASE).intercept({ path: '/posts' }).reply(200, { posts: [] });
+
+		expect(fetchMock.pendingInterceptors()[0].test).toBe(
+			'setupFetchMock (jest) should activate and tag interceptors with the test name',
+		);
+		const response = await fetch(`${API_BASE}/posts`);
+		expect(await response.json()).toEqual({ posts: [] });
+	});
+
+	it('should reset after each test', () => {
+		expect(fetchMock.calls.length).toBe(0);
+		expect(fetchMock.pendingInterceptors()).toEqual([]);
+	});
+});
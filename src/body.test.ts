@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { isRawBody, withDefaultContentType } from './body';
+
+describe('isRawBody', () => {
+	it.each([
+		['string', 'text'],
+		['ArrayBuffer', new ArrayBuffer(1)],
+		['Uint8Array', new Uint8Array([1])],
+		['DataView', new DataView(new ArrayBuffer(1))],
+		['Blob', new Blob(['x'])],
+		['FormData', new FormData()],
+		['URLSearchParams', new URLSearchParams('a=1')],
+		['ReadableStream', new Blob(['x']).stream()],
+	])('should return true for %s', (_, body) => {
+		expect(isRawBody(body)).toBe(true);
+	});
+
+	it.each([
+		['object', { a: 1 }],
+		['array', [1, 2]],
+		['number', 42],
+		['boolean', true],
+	])('should return false for %s', (_, body) => {
+		expect(isRawBody(body)).toBe(false);
+	});
+});
+
+describe('withDefaultContentType', () => {
+	it('should default binary bodies to application/octet-stream', () => {
+		expect(withDefaultContentType(new Uint8Array([1]))?.get('content-type')).toBe(
+			'application/octet-stream',
+		);
+		expect(withDefaultContentType(new Blob(['x']))?.get('content-type')).toBe(
+			'application/octet-stream',
+		);
+	});
+
+	it('should leave bodies that Response types itself untouched', () => {
+		expect(withDefaultContentType('text')).toBeUndefined();
+		expect(withDefaultContentType(new Blob(['x'], { type: 'image/png' }))).toBeUndefined();
+		expect(withDefaultContentType(new URLSearchParams('a=1'))).toBeUndefined();
+	});
+
+	it('should keep an explicit content type', () => {
+		const headers = new Headers({ 'Content-Type': 'image/png' });
+
+		expect(withDefaultContentType(new Uint8Array([1]), headers)?.get('content-type')).toBe(
+			'image/png',
+		);
+	});
+});
@@ -0,0 +1,70 @@
+const BINARY_CONTENT_TYPE = 'application/octet-stream';
+
+/**
+ * Returns true for bodies that `Response` accepts natively and that must be
+ * sent as-is rather than JSON-serialized.
+ */
+export function isRawBody(body: unknown): body is BodyInit {
+	return (
+		typeof body === 'string' ||
+		body instanceof ArrayBuffer ||
+		ArrayBuffer.isView(body) ||
+		body instanceof Blob ||
+		body instanceof FormData ||
+		body instanceof URLSearchParams ||
+		body instanceof ReadableStream
+	);
+}
+
+/**
+ * Adds a default `Content-Type` for raw bodies the `Response` constructor
+ * leaves untyped (binary data, streams, untyped Blobs). Strings, typed Blobs,
+ * `FormData` and `URLSearchParams` are typed by `Response` itself.
+ */
+export function withDefaultContentType(body: BodyInit, headers?: Headers): Headers | undefined {
+	if (headers?.has('content-type')) return headers;
+	const untyped =
+		body instanceof ArrayBuffer ||
+		ArrayBuffer.isView(body) ||
+		body instanceof ReadableStream ||
+		(body instanceof Blob && !body.type);
+	if (!untyped) return headers;
+	const result = new Headers(headers);
+	result.set('content-type', BINARY_CONTENT_TYPE);
+	return result;
+}
+
+/**
+ * Copies the bytes of a view into a fresh `ArrayBuffer`, which `BodyInit`
+ * accepts whatever buffer (shared, Node `Buffer` pool...) backs the view.
+ */
+export function copyToArrayBuffer(view: ArrayBufferView): ArrayBuffer {
+	const bytes = new Uint8Array(view.byteLength);
+	bytes.set(new Uint8Array(view.buffer, view.byteOffset, view.byteLength));
+	return bytes.buffer;
+}
+
+function toBase64(bytes: Uint8Array): string {
+	let binary = '';
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+	}
+	return btoa(binary);
+}
+
+export function fromBase64(text: string): Uint8Array {
+	return Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+}
+
+/** Decodes UTF-8 text, falling back to base64 for binary bodies. */
+export function encodeBody(buffer: ArrayBuffer | Uint8Array): {
+	body: string;
+	encoding?: 'base64';
+} {
+	try {
+		return { body: new TextDecoder('utf-8', { fatal: true }).decode(buffer) };
+	} catch {
+		const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+		return { body: toBase64(bytes), encoding: 'base64' };
+	}
+}
@@ -1,5 +1,7 @@
 import { describe, expect, it, vi } from 'vitest';
+import { createFetchMock, setupFetchMock } from './browser';
 import { BrowserMswAdapter } from './browser-adapter';
+import { type LifecycleHooks } from './lifecycle';
 import { type ResolvedActivateOptions, type SetupWorkerLike } from './types';
 
 function createStubWorker(): SetupWorkerLike {
@@ -78,3 +80,34 @@ describe('BrowserMswAdapter', () => {
 		});
 	});
 });
+
+describe('setupFetchMock (browser)', () => {
+	it('should wire the given instance into the runner hooks', async () => {
+		const worker = createStubWorker();
+		const fetchMock = createFetchMock(worker);
+		const hooks: Partial<Record<keyof LifecycleHooks, () => unknown>> = {};
+		const runner: LifecycleHooks = {
+			beforeAll: (fn) => {
+				hooks.beforeAll = fn;
+			},
+			beforeEach: (fn) => {
+				hooks.beforeEach = fn;
+			},
+			afterEach: (fn) => {
+				hooks.afterEach = fn;
+			},
+			afterAll: (fn) => {
+				hooks.afterAll = fn;
+			},
+		};
+
+		expect(setupFetchMock({ runner, fetchMock })).toBe(fetchMock);
+
+		await hooks.beforeAll?.();
+		expect(worker.start).toHaveBeenCalled();
+		fetchMock.get('http://localhost').intercept({ path: '/pending' }).reply(200);
+		await expect(hooks.afterEach?.()).rejects.toThrow(/GET http:\/\/localhost\/pending/);
+		hooks.afterAll?.();
+		expect(worker.stop).toHaveBeenCalled();
+	});
+});
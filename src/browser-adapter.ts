@@ -1,3 +1,4 @@
+import { bypass } from 'msw';
 import { type MswAdapter, type ResolvedActivateOptions, type SetupWorkerLike } from './types';
 
 export class BrowserMswAdapter implements MswAdapter {
@@ -24,4 +25,8 @@ export class BrowserMswAdapter implements MswAdapter {
 	deactivate(): void {
 		this.worker.stop();
 	}
+
+	bypass(request: Request): Promise<Response> {
+		return fetch(bypass(request));
+	}
 }
@@ -1,6 +1,7 @@
 import { BrowserMswAdapter } from './browser-adapter';
 import { FetchMock } from './fetch-mock';
 import { HandlerFactory } from './handler-factory';
+import { registerLifecycleHooks, type SetupFetchMockOptions } from './lifecycle';
 import { type SetupWorkerLike } from './types';
 
 export { BrowserMswAdapter } from './browser-adapter';
@@ -13,5 +14,15 @@ export function createFetchMock(worker: SetupWorkerLike): FetchMock {
 	return new FetchMock(new BrowserMswAdapter(worker));
 }
 
+/**
+ * Like `setupFetchMock` from `msw-fetch-mock/node`. This entry has no
+ * singleton, so pass the instance from `createFetchMock(worker)`.
+ */
+export function setupFetchMock(
+	options: SetupFetchMockOptions & { fetchMock: FetchMock },
+): FetchMock {
+	return registerLifecycleHooks(options.fetchMock, options);
+}
+
 export * from './exports';
 export type { SetupWorkerLike } from './types';
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { checkRequest, validateResponse, validateSchema } from './contract';
+import { type OpenApiDocument } from './types';
+
+const spec: OpenApiDocument = {
+	openapi: '3.0.3',
+	paths: {
+		'/users/me': { get: { operationId: 'me', responses: { '200': { description: 'Me' } } } },
+		'/users/{id}': {
+			parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+			get: {
+				operationId: 'getUser',
+				parameters: [
+					{
+						name: 'fields',
+						in: 'query',
+						schema: { type: 'array', items: { enum: ['name', 'email'] } },
+					},
+					{ name: 'X-Tenant', in: 'header', required: true, schema: { type: 'string' } },
+				],
+				responses: {
+					'200': {
+						description: 'User',
+						content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } },
+					},
+					'4XX': { description: 'Client error' },
+				},
+			},
+			put: {
+				requestBody: {
+					required: true,
+					content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } },
+				},
+				responses: { '204': { description: 'Updated' } },
+			},
+		},
+	},
+	components: {
+		schemas: {
+			User: {
+				type: 'object',
+				required: ['id', 'name'],
+				additionalProperties: false,
+				properties: {
+					id: { type: 'integer', minimum: 1 },
+					name: { type: 'string', minLength: 1 },
+					email: { type: 'string', format: 'email', nullable: true },
+				},
+			},
+		},
+	},
+};
+
+const contract = { spec, baseUrl: 'http://api.test/v1' };
+
+describe('validateSchema', () => {
+	it('should report every violation with its JSON path', () => {
+		expect(
+			validateSchema(
+				spec,
+				{ $ref: '#/components/schemas/User' },
+				{ id: 0, email: 'nope', role: 'x' },
+			),
+		).toEqual([
+			'$.name: required property is missing',
+			'$.id: expected >= 1, received 0',
+			'$.email: expected email format, received "nope"',
+			'$.role: property is not allowed',
+		]);
+	});
+
+	it('should support type lists, combinators and array bounds', () => {
+		expect(validateSchema(spec, { type: ['string', 'null'] }, null)).toEqual([]);
+		expect(validateSchema(spec, { oneOf: [{ type: 'integer' }, { type: 'number' }] }, 1)).toEqual([
+			'$: matches 2 schemas of oneOf, expected 1',
+		]);
+		expect(
+			validateSchema(spec, { type: 'array', maxItems: 1, items: { type: 'string' } }, ['a', 2]),
+		).toEqual([
+			'$: expected at most 1 items, received 2',
+			'$[1]: expected string, received integer',
+		]);
+	});
+});
+
+describe('checkRequest', () => {
+	it('should validate path, query and header parameters', () => {
+		const request = new Request('http://api.test/v1/users/abc?fields=name&fields=phone');
+
+		expect(checkRequest(contract, request, null)?.violations).toEqual([
+			'path parameter "id": expected integer, received string',
+			'query parameter "fields"[1]: expected one of ["name","email"], received "phone"',
+			'header parameter "X-Tenant": required, but missing',
+		]);
+	});
+
+	it('should prefer concrete paths and ignore requests outside the base URL', () => {
+		expect(checkRequest(contract, new Request('http://api.test/v1/users/me'), null)).toEqual({
+			match: expect.objectContaining({ path: '/users/me' }),
+			violations: [],
+		});
+		expect(
+			checkRequest(contract, new Request('http://other.test/v1/users/me'), null),
+		).toBeUndefined();
+		expect(
+			checkRequest(contract, new Request('http://api.test/v1/teams'), null)?.violations,
+		).toEqual(['no operation documents GET /v1/teams']);
+	});
+
+	it('should validate the request body', () => {
+		const put = (body: string | null, type = 'application/json') =>
+			checkRequest(
+				contract,
+				new Request('http://api.test/v1/users/1', {
+					method: 'PUT',
+					headers: { 'Content-Type': type },
+				}),
+				body,
+			)?.violations;
+
+		expect(put('{"id":1,"name":"Alice"}')).toEqual([]);
+		expect(put(null)).toEqual(['request body: required, but missing']);
+		expect(put('{"id":1')).toEqual(['request body: invalid JSON']);
+		expect(put('{"id":1}')).toEqual(['request body $.name: required property is missing']);
+		expect(put('id=1', 'application/x-www-form-urlencoded')).toEqual([
+			'request body: content type application/x-www-form-urlencoded is not documented, expected application/json',
+		]);
+	});
+});
+
+describe('validateResponse', () => {
+	const request = new Request('http://api.test/v1/users/1', { headers: { 'X-Tenant': 'a' } });
+	const match = checkRequest(contract, request, null)?.match;
+	if (!match) throw new Error('expected getUser to match');
+
+	it('should validate documented statuses and JSON bodies', async () => {
+		expect(await validateResponse(spec, match, Response.json({ id: 1, name: 'Alice' }))).toEqual(
+			[],
+		);
+		expect(await validateResponse(spec, match, Response.json({ id: '1' }))).toEqual([
+			'response body $.name: required property is missing',
+			'response body $.id: expected integer, received string',
+		]);
+		expect(await validateResponse(spec, match, new Response(null, { status: 404 }))).toEqual([]);
+		expect(await validateResponse(spec, match, new Response(null, { status: 500 }))).toEqual([
+			'response status 500 is not documented, expected 200, 4XX',
+		]);
+		expect(await validateResponse(spec, match, Response.error())).toEqual([]);
+	});
+});
@@ -0,0 +1,423 @@
+import { diffJson, escapeRegExp } from './matchers';
+import { resolveRef } from './openapi';
+import { isStreamResponse } from './stream';
+import {
+	type OpenApiDocument,
+	type OpenApiMediaType,
+	type OpenApiOperation,
+	type OpenApiParameter,
+	type OpenApiResponse,
+	type OpenApiSchema,
+} from './types';
+
+/** The operation a request was matched to, with its path parameter values. */
+export interface ContractOperation {
+	method: string;
+	/** Path as written in the spec, e.g. `/users/{id}`. */
+	path: string;
+	operation: OpenApiOperation;
+	pathItem: Record<string, unknown>;
+	params: Record<string, string>;
+}
+
+export interface OpenApiContract {
+	spec: OpenApiDocument;
+	/** Base URL of the mocked API; requests outside it are not validated. */
+	baseUrl: string;
+}
+
+function describeType(value: unknown): string {
+	if (value === null) return 'null';
+	if (Array.isArray(value)) return 'array';
+	if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+	return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+	const actual = describeType(value);
+	return actual === type || (type === 'number' && actual === 'integer');
+}
+
+const FORMATS: Record<string, RegExp> = {
+	date: /^\d{4}-\d{2}-\d{2}$/,
+	'date-time': /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i,
+	email: /^[^@\s]+@[^@\s]+$/,
+	uuid: /^[\da-f]{8}-[\da-f]{4}-[\da-f]{4}-[\da-f]{4}-[\da-f]{12}$/i,
+};
+
+/**
+ * Validates a value against a JSON Schema, returning one line per violation.
+ * Covers the keywords OpenAPI documents commonly use: types, `enum`,
+ * `const`, combinators, string, number and array bounds, required and
+ * additional properties, and the `date`, `date-time`, `email` and `uuid`
+ * formats.
+ */
+export function validateSchema(
+	spec: OpenApiDocument,
+	input: OpenApiSchema | undefined,
+	value: unknown,
+	path = '$',
+): string[] {
+	if (!input) return [];
+	const schema = resolveRef(spec, input);
+	if (value === null && schema.nullable) return [];
+	const types = schema.type === undefined ? [] : [schema.type].flat();
+	if (types.length > 0 && !types.some((type) => matchesType(value, type))) {
+		return [`${path}: expected ${types.join(' | ')}, received ${describeType(value)}`];
+	}
+
+	const errors: string[] = [];
+	const equals = (expected: unknown) => diffJson(value, expected).length === 0;
+	if (schema.enum && !schema.enum.some(equals)) {
+		errors.push(
+			`${path}: expected one of ${JSON.stringify(schema.enum)}, received ${JSON.stringify(value)}`,
+		);
+	}
+	if (schema.const !== undefined && !equals(schema.const)) {
+		errors.push(
+			`${path}: expected ${JSON.stringify(schema.const)}, received ${JSON.stringify(value)}`,
+		);
+	}
+	for (const part of schema.allOf ?? []) errors.push(...validateSchema(spec, part, value, path));
+	const isValid = (variant: OpenApiSchema) =>
+		validateSchema(spec, variant, value, path).length === 0;
+	if (schema.anyOf && !schema.anyOf.some(isValid)) {
+		errors.push(`${path}: does not match any schema of anyOf`);
+	}
+	if (schema.oneOf) {
+		const matches = schema.oneOf.filter(isValid).length;
+		if (matches !== 1) errors.push(`${path}: matches ${matches} schemas of oneOf, expected 1`);
+	}
+
+	if (typeof value === 'string') {
+		if (schema.minLength !== undefined && value.length < schema.minLength) {
+			errors.push(
+				`${path}: expected at least ${schema.minLength} characters, received ${value.length}`,
+			);
+		}
+		if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+			errors.push(
+				`${path}: expected at most ${schema.maxLength} characters, received ${value.length}`,
+			);
+		}
+		if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+			errors.push(
+				`${path}: expected to match ${schema.pattern}, received ${JSON.stringify(value)}`,
+			);
+		}
+		const format = FORMATS[schema.format ?? ''];
+		if (format && !format.test(value)) {
+			errors.push(`${path}: expected ${schema.format} format, received ${JSON.stringify(value)}`);
+		}
+	}
+
+	if (typeof value === 'number') {
+		// OpenAPI 3.0 uses boolean exclusive bounds, 3.1 (JSON Schema) numeric ones
+		const { minimum, maximum, exclusiveMinimum, exclusiveMaximum } = schema;
+		const min = typeof exclusiveMinimum === 'number' ? exclusiveMinimum : minimum;
+		const max = typeof exclusiveMaximum === 'number' ? exclusiveMaximum : maximum;
+		const minExclusive = typeof exclusiveMinimum === 'number' || exclusiveMinimum === true;
+		const maxExclusive = typeof exclusiveMaximum === 'number' || exclusiveMaximum === true;
+		if (min !== undefined && (minExclusive ? value <= min : value < min)) {
+			errors.push(`${path}: expected ${minExclusive ? '>' : '>='} ${min}, received ${value}`);
+		}
+		if (max !== undefined && (maxExclusive ? value >= max : value > max)) {
+			errors.push(`${path}: expected ${maxExclusive ? '<' : '<='} ${max}, received ${value}`);
+		}
+	}
+
+	if (Array.isArray(value)) {
+		if (schema.minItems !== undefined && value.length < schema.minItems) {
+			errors.push(`${path}: expected at least ${schema.minItems} items, received ${value.length}`);
+		}
+		if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+			errors.push(`${path}: expected at most ${schema.maxItems} items, received ${value.length}`);
+		}
+		value.forEach((item, i) => {
+			errors.push(...validateSchema(spec, schema.items, item, `${path}[${i}]`));
+		});
+	} else if (value !== null && typeof value === 'object') {
+		const object = value as Record<string, unknown>;
+		for (const name of schema.required ?? []) {
+			if (!(name in object)) errors.push(`${path}.${name}: required property is missing`);
+		}
+		for (const [key, item] of Object.entries(object)) {
+			const property = schema.properties?.[key];
+			if (property) {
+				errors.push(...validateSchema(spec, property, item, `${path}.${key}`));
+			} else if (schema.additionalProperties === false) {
+				errors.push(`${path}.${key}: property is not allowed`);
+			} else if (typeof schema.additionalProperties === 'object') {
+				errors.push(...validateSchema(spec, schema.additionalProperties, item, `${path}.${key}`));
+			}
+		}
+	}
+	return errors;
+}
+
+function decodeParam(value: string): string {
+	try {
+		return decodeURIComponent(value);
+	} catch {
+		return value;
+	}
+}
+
+/** Matches a request path against a spec path such as `/users/{id}`. */
+function matchSpecPath(specPath: string, pathname: string): Record<string, string> | null {
+	const names: string[] = [];
+	let source = '';
+	let lastIndex = 0;
+	for (const match of specPath.matchAll(/\{([^}]+)\}/g)) {
+		source += escapeRegExp(specPath.slice(lastIndex, match.index));
+		source += '([^/]+)';
+		names.push(match[1]);
+		lastIndex = match.index + match[0].length;
+	}
+	source += escapeRegExp(specPath.slice(lastIndex));
+	const result = new RegExp(`^${source}$`).exec(pathname);
+	if (!result) return null;
+	return Object.fromEntries(names.map((name, i) => [name, decodeParam(result[i + 1])]));
+}
+
+/**
+ * Finds the operation documenting a request. Returns `undefined` for requests
+ * outside the contract's base URL and `null` when no operation documents it.
+ */
+function findOperation(
+	contract: OpenApiContract,
+	request: Request,
+): ContractOperation | null | undefined {
+	const url = new URL(request.url);
+	const base = new URL(contract.baseUrl);
+	const basePath = base.pathname.replace(/\/$/, '');
+	if (url.origin !== base.origin || !url.pathname.startsWith(basePath)) return undefined;
+	const pathname = url.pathname.slice(basePath.length) || '/';
+	const method = request.method.toLowerCase();
+	// Concrete paths take precedence over templated ones, e.g. /users/me over /users/{id}
+	const paths = Object.entries(contract.spec.paths ?? {}).sort(
+		([a], [b]) => Number(a.includes('{')) - Number(b.includes('{')),
+	);
+	for (const [path, item] of paths) {
+		const params = matchSpecPath(path, pathname);
+		if (!params) continue;
+		const pathItem = resolveRef(contract.spec, item) as Record<string, unknown>;
+		const operation = pathItem[method] as OpenApiOperation | undefined;
+		if (operation) return { method: request.method, path, operation, pathItem, params };
+	}
+	return null;
+}
+
+/** Converts a path, query or header value to the type its schema declares. */
+function coerceParam(
+	spec: OpenApiDocument,
+	schema: OpenApiSchema | undefined,
+	raw: string,
+): unknown {
+	const { type } = resolveRef(spec, schema ?? {});
+	const types = type === undefined ? [] : [type].flat();
+	if (
+		(types.includes('integer') || types.includes('number')) &&
+		raw.trim() !== '' &&
+		!Number.isNaN(Number(raw))
+	) {
+		return Number(raw);
+	}
+	if (types.includes('boolean') && (raw === 'true' || raw === 'false')) return raw === 'true';
+	return raw;
+}
+
+function paramValue(
+	spec: OpenApiDocument,
+	param: OpenApiParameter,
+	match: ContractOperation,
+	request: Request,
+): unknown {
+	const url = new URL(request.url);
+	const schema = param.schema ? resolveRef(spec, param.schema) : undefined;
+	if (param.in === 'query') {
+		const values = url.searchParams.getAll(param.name);
+		if (values.length === 0) return undefined;
+		if ([schema?.type].flat().includes('array')) {
+			const items = values.flatMap((value) =>
+				param.explode === false ? value.split(',') : [value],
+			);
+			return items.map((item) => coerceParam(spec, schema?.items, item));
+		}
+		return coerceParam(spec, schema, values[0]);
+	}
+	const raw = param.in === 'path' ? match.params[param.name] : request.headers.get(param.name);
+	return raw === undefined || raw === null ? undefined : coerceParam(spec, schema, raw);
+}
+
+/** Path-level parameters, overridden by operation-level ones with the same name and location. */
+function operationParameters(spec: OpenApiDocument, match: ContractOperation): OpenApiParameter[] {
+	const params = new Map<string, OpenApiParameter>();
+	const declared = [
+		...((match.pathItem.parameters as OpenApiParameter[] | undefined) ?? []),
+		...(match.operation.parameters ?? []),
+	];
+	for (const input of declared) {
+		const param = resolveRef(spec, input);
+		params.set(`${param.in}:${param.name}`, param);
+	}
+	return [...params.values()];
+}
+
+function mediaTypeOf(contentType: string | null): string {
+	return contentType?.split(';')[0].trim().toLowerCase() ?? '';
+}
+
+function isJsonMediaType(mediaType: string): boolean {
+	return /[/+]json$/.test(mediaType);
+}
+
+/** Finds the documented media type, honouring `type/*` and `*\/*` ranges. */
+function findMediaType(
+	content: Record<string, OpenApiMediaType>,
+	mediaType: string,
+): OpenApiMediaType | undefined {
+	const entries = Object.entries(content).map(
+		([type, media]) => [type.toLowerCase(), media] as const,
+	);
+	const find = (type: string) => entries.find(([documented]) => documented === type)?.[1];
+	return find(mediaType) ?? find(`${mediaType.split('/')[0]}/*`) ?? find('*/*');
+}
+
+/** Validates a JSON body against the documented media type, if one applies. */
+function validateBody(
+	spec: OpenApiDocument,
+	content: Record<string, OpenApiMediaType>,
+	contentType: string | null,
+	bodyText: string,
+	label: string,
+): string[] {
+	const mediaType = mediaTypeOf(contentType);
+	const media = findMediaType(content, mediaType);
+	if (!media) {
+		return [
+			`${label}: content type ${mediaType || '(none)'} is not documented, expected ${Object.keys(content).join(' or ')}`,
+		];
+	}
+	if (!isJsonMediaType(mediaType) || !media.schema || bodyText === '') return [];
+	let json: unknown;
+	try {
+		json = JSON.parse(bodyText);
+	} catch {
+		return [`${label}: invalid JSON`];
+	}
+	return validateSchema(spec, media.schema, json).map((error) => `${label} ${error}`);
+}
+
+/** Validates a matched request's parameters and body against its operation. */
+function validateRequest(
+	spec: OpenApiDocument,
+	match: ContractOperation,
+	request: Request,
+	bodyText: string | null,
+): string[] {
+	const errors: string[] = [];
+	for (const param of operationParameters(spec, match)) {
+		if (param.in === 'cookie') continue;
+		const label = `${param.in} parameter "${param.name}"`;
+		const value = paramValue(spec, param, match, request);
+		if (value === undefined) {
+			if (param.required) errors.push(`${label}: required, but missing`);
+			continue;
+		}
+		errors.push(
+			...validateSchema(spec, param.schema, value).map(
+				(error) => `${label}${error.replace(/^\$/, '')}`,
+			),
+		);
+	}
+
+	const requestBody = match.operation.requestBody
+		? resolveRef(spec, match.operation.requestBody)
+		: undefined;
+	if (bodyText === null) {
+		if (requestBody?.required) errors.push('request body: required, but missing');
+	} else if (requestBody?.content) {
+		errors.push(
+			...validateBody(
+				spec,
+				requestBody.content,
+				request.headers.get('content-type'),
+				bodyText,
+				'request body',
+			),
+		);
+	}
+	return errors;
+}
+
+/**
+ * Finds the operation documenting a request and validates the request
+ * against it. Returns `undefined` for requests outside the contract.
+ */
+export function checkRequest(
+	contract: OpenApiContract,
+	request: Request,
+	bodyText: string | null,
+): { match?: ContractOperation; violations: string[] } | undefined {
+	const match = findOperation(contract, request);
+	if (match === undefined) return undefined;
+	if (match === null) {
+		const { pathname } = new URL(request.url);
+		return { violations: [`no operation documents ${request.method} ${pathname}`] };
+	}
+	return { match, violations: validateRequest(contract.spec, match, request, bodyText) };
+}
+
+/** The response documented for a status: exact code, then `4XX`-style ranges, then `default`. */
+function documentedResponse(
+	responses: Record<string, OpenApiResponse>,
+	status: number,
+): OpenApiResponse | undefined {
+	const code = String(status);
+	return (
+		responses[code] ??
+		Object.entries(responses).find(([key]) => key.toUpperCase() === `${code[0]}XX`)?.[1] ??
+		responses.default
+	);
+}
+
+/**
+ * Validates a mocked response's status and JSON body against the operation.
+ * Bodies of `replyStream()`/`replySse()` replies and bodies that are not JSON
+ * are not read, so an open-ended stream is never waited on.
+ */
+export async function validateResponse(
+	spec: OpenApiDocument,
+	match: ContractOperation,
+	response: Response,
+): Promise<string[]> {
+	// Network errors replied with replyWithError() have no status to check
+	if (response.type === 'error') return [];
+	const documented = documentedResponse(match.operation.responses ?? {}, response.status);
+	if (!documented) {
+		const statuses = Object.keys(match.operation.responses ?? {}).join(', ');
+		return [`response status ${response.status} is not documented, expected ${statuses}`];
+	}
+	const { content } = resolveRef(spec, documented);
+	if (!content || response.body === null || isStreamResponse(response)) return [];
+	const contentType = response.headers.get('content-type');
+	const bodyText = isJsonMediaType(mediaTypeOf(contentType)) ? await response.clone().text() : '';
+	return validateBody(spec, content, contentType, bodyText, 'response body');
+}
+
+/** Describes the violations of one request for the network error it fails with. */
+export function formatContractViolations(
+	request: Request,
+	violations: string[],
+	match?: ContractOperation,
+): string {
+	const operation = match
+		? ` of ${match.method} ${match.path}${match.operation.operationId ? ` (${match.operation.operationId})` : ''}`
+		: '';
+	return (
+		`[msw-fetch-mock] Request violates the OpenAPI contract${operation}:\n\n` +
+		`  \u2022 ${request.method} ${request.url}\n` +
+		violations.map((line) => `      ${line}`).join('\n')
+	);
+}
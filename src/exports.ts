@@ -6,20 +6,61 @@
  */
 
 export { FetchMock } from './fetch-mock';
-export type { CallHistoryFilterCriteria, MockCallHistoryLogData } from './mock-call-history';
+export { loadFixture, saveFixture } from './fixtures';
+export type { LifecycleHooks, SetupFetchMockOptions, TestRunner } from './lifecycle';
+export { anyNumber, anyString, anything, partial, stringMatching } from './matchers';
+export type {
+	CallHistoryFilterCriteria,
+	InterceptorHandle,
+	InterceptorRef,
+	MockCallHistoryLogData,
+} from './mock-call-history';
 export { MockCallHistory, MockCallHistoryLog } from './mock-call-history';
+export { loadOpenApi } from './openapi';
 export type {
 	ActivateOptions,
+	AsymmetricMatcher,
+	BinaryBody,
+	BodyMatcher,
+	ContractValidationOptions,
+	Fixture,
+	FixtureEntry,
+	FormFieldMatcher,
+	FormFileMatcher,
+	FromOpenApiOptions,
 	HandlerFactory,
+	Har,
+	HarEntry,
+	HarHeader,
+	HarMatchField,
 	InterceptOptions,
+	InterceptorMatchers,
+	JsonMatcher,
+	LoadHarOptions,
 	MockInterceptor,
 	MockPool,
 	MockReplyChain,
 	MswAdapter,
 	OnUnhandledRequest,
+	OpenApiDocument,
+	OpenApiMock,
+	OpenApiSchema,
 	PendingInterceptor,
+	PendingInterceptorsReport,
+	PendingReportFormat,
+	PendingReportFormatter,
+	QueryValueMatcher,
 	ReplyCallback,
 	ReplyOptions,
+	ReplyRequest,
+	ReplySequenceOptions,
+	ReplySequenceStep,
+	SequenceExhaustion,
 	SingleReplyCallback,
 	SingleReplyResult,
+	SseEvent,
+	StreamChunk,
+	StreamReplyOptions,
+	StreamSource,
+	UnmatchedRequest,
 } from './types';
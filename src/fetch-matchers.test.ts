@@ -0,0 +1,149 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { fetchMatchers } from './fetch-matchers';
+import { partial } from './matchers';
+import { MockCallHistory, type MockCallHistoryLogData } from './mock-call-history';
+import { createFetchMock } from './node';
+import './vitest';
+
+const API_BASE = 'http://localhost:8787';
+
+function createLog(overrides: Partial<MockCallHistoryLogData> = {}): MockCallHistoryLogData {
+	return {
+		body: null,
+		method: 'GET',
+		headers: {},
+		fullUrl: `${API_BASE}/api/users`,
+		origin: API_BASE,
+		path: '/api/users',
+		searchParams: {},
+		protocol: 'http:',
+		host: 'localhost:8787',
+		port: '8787',
+		hash: '',
+		...overrides,
+	};
+}
+
+describe('fetchMatchers', () => {
+	const history = new MockCallHistory();
+	history.record(createLog());
+	history.record(
+		createLog({
+			method: 'POST',
+			fullUrl: `${API_BASE}/api/posts`,
+			path: '/api/posts',
+			body: '{"title":"Hi","tags":[]}',
+		}),
+	);
+
+	it('should describe each call that differs from the criteria', () => {
+		const result = fetchMatchers.toHaveFetched(history, { method: 'DELETE', path: '/api/posts' });
+
+		expect(result.pass).toBe(false);
+		expect(result.message()).toBe(
+			[
+				'expected a fetch matching {"method":"DELETE","path":"/api/posts"}, but none of 2 calls matched:',
+				'',
+				`  GET ${API_BASE}/api/users`,
+				'      method: expected "DELETE", received "GET"',
+				'      path: expected "/api/posts", received "/api/users"',
+				`  POST ${API_BASE}/api/posts`,
+				'      method: expected "DELETE", received "POST"',
+			].join('\n'),
+		);
+	});
+
+	it('should list the matching calls when negated', () => {
+		const result = fetchMatchers.toHaveFetched(history, /posts/);
+
+		expect(result.pass).toBe(true);
+		expect(result.message()).toBe(
+			`expected no fetch matching /posts/, but 1 call matched:\n\n  POST ${API_BASE}/api/posts`,
+		);
+	});
+
+	it('should count matching calls', () => {
+		expect(fetchMatchers.toHaveFetchedTimes(history, 2).pass).toBe(true);
+		const result = fetchMatchers.toHaveFetchedTimes(history, 2, { method: 'POST' });
+
+		expect(result.pass).toBe(false);
+		expect(result.message()).toBe(
+			`expected 2 calls matching {"method":"POST"}, received 1 call:\n\n  POST ${API_BASE}/api/posts`,
+		);
+	});
+
+	it('should diff request bodies', () => {
+		expect(fetchMatchers.toHaveFetchedWithBody(history, partial({ title: 'Hi' })).pass).toBe(true);
+		const result = fetchMatchers.toHaveFetchedWithBody(
+			history,
+			{ title: 'Bye' },
+			{ method: 'POST' },
+		);
+
+		expect(result.pass).toBe(false);
+		expect(result.message()).toBe(
+			[
+				'expected a fetch matching {"method":"POST"} with a matching body, but none of 1 call matched:',
+				'',
+				`  POST ${API_BASE}/api/posts`,
+				'      $.title: expected "Bye", received "Hi"',
+				'      $.tags: unexpected key with []',
+			].join('\n'),
+		);
+	});
+
+	it('should reject values that are not a FetchMock or call history', () => {
+		expect(() => fetchMatchers.toHaveFetched({})).toThrow(TypeError);
+	});
+});
+
+describe('msw-fetch-mock/vitest', () => {
+	const fetchMock = createFetchMock();
+
+	beforeAll(async () => {
+		await fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => fetchMock.reset());
+	afterAll(() => fetchMock.deactivate());
+
+	it('should register the matchers on expect', async () => {
+		fetchMock.get(API_BASE).intercept({ path: '/api/users', method: 'POST' }).reply(201, {});
+
+		expect(fetchMock).not.toHaveNoPendingInterceptors();
+		await fetch(`${API_BASE}/api/users`, { method: 'POST', body: '{"name":"Alice"}' });
+
+		expect(fetchMock).toHaveFetched({ method: 'POST', path: '/api/users' });
+		expect(fetchMock.calls).toHaveFetchedTimes(1);
+		expect(fetchMock).toHaveFetchedWithBody({ name: 'Alice' });
+		expect(fetchMock).not.toHaveFetched({ method: 'GET' });
+		expect(fetchMock).toHaveNoPendingInterceptors();
+	});
+
+	it('should fail with the pending interceptor report', () => {
+		fetchMock.get(API_BASE).intercept({ path: '/api/unused' }).reply(200);
+
+		expect(() => expect(fetchMock).toHaveNoPendingInterceptors()).toThrow(
+			`Pending interceptor(s) not consumed:\n  GET ${API_BASE}/api/unused`,
+		);
+	});
+});
+
+describe('msw-fetch-mock/jest', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		vi.resetModules();
+	});
+
+	it('should register the matchers on the global expect', async () => {
+		const extend = vi.fn();
+		vi.stubGlobal('expect', { extend });
+
+		await import('./jest');
+
+		expect(extend).toHaveBeenCalledWith(
+			expect.objectContaining({ toHaveFetched: expect.any(Function) }),
+		);
+	});
+});
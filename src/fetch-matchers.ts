@@ -0,0 +1,143 @@
+import { FetchMock } from './fetch-mock';
+import { diffBody } from './matchers';
+import {
+	type CallHistoryFilterCriteria,
+	MockCallHistory,
+	type MockCallHistoryLog,
+} from './mock-call-history';
+import { type BodyMatcher } from './types';
+
+/** Selects calls by structured criteria (all must match), a RegExp or a predicate. */
+export type CallCriteria =
+	| CallHistoryFilterCriteria
+	| RegExp
+	| ((log: MockCallHistoryLog) => boolean);
+
+/** Custom matchers registered by `msw-fetch-mock/vitest` and `msw-fetch-mock/jest`. */
+export interface FetchMockMatchers<R = unknown> {
+	/** Passes when at least one recorded call matches `criteria` (any call when omitted). */
+	toHaveFetched(criteria?: CallCriteria): R;
+	/** Passes when exactly `times` recorded calls match `criteria`. */
+	toHaveFetchedTimes(times: number, criteria?: CallCriteria): R;
+	/** Passes when a call matching `criteria` sent a body matching `body`. */
+	toHaveFetchedWithBody(body: BodyMatcher, criteria?: CallCriteria): R;
+	/** Passes when `assertNoPendingInterceptors()` would not throw. */
+	toHaveNoPendingInterceptors(): R;
+}
+
+interface MatcherResult {
+	pass: boolean;
+	message: () => string;
+}
+
+function toHistory(received: unknown): MockCallHistory {
+	if (received instanceof MockCallHistory) return received;
+	if (received instanceof FetchMock) return received.calls;
+	throw new TypeError('Expected a FetchMock or MockCallHistory instance.');
+}
+
+function filter(history: MockCallHistory, criteria?: CallCriteria): MockCallHistoryLog[] {
+	if (criteria === undefined) return history.all();
+	return history.filterCalls(criteria, { operator: 'AND' });
+}
+
+function describeCriteria(criteria?: CallCriteria): string {
+	if (criteria === undefined) return '';
+	if (typeof criteria === 'function') return ' matching <function>';
+	if (criteria instanceof RegExp) return ` matching ${criteria}`;
+	return ` matching ${JSON.stringify(criteria)}`;
+}
+
+function formatTimes(n: number): string {
+	return `${n} ${n === 1 ? 'call' : 'calls'}`;
+}
+
+/** One line per call, followed by its indented details. */
+function listCalls(
+	calls: MockCallHistoryLog[],
+	details: (log: MockCallHistoryLog) => string[] = () => [],
+): string {
+	if (calls.length === 0) return '\n\nNo calls were recorded.';
+	const lines = calls.map((log) =>
+		[`  ${log.method} ${log.fullUrl}`, ...details(log).map((line) => `      ${line}`)].join('\n'),
+	);
+	return `\n\n${lines.join('\n')}`;
+}
+
+/** Structured criteria fields that differ from a call, e.g. `method: expected "POST", received "GET"`. */
+function diffCriteria(log: MockCallHistoryLog, criteria?: CallCriteria): string[] {
+	if (criteria === undefined || typeof criteria === 'function' || criteria instanceof RegExp) {
+		return [];
+	}
+	const keys = Object.keys(criteria) as (keyof CallHistoryFilterCriteria)[];
+	return keys
+		.filter((key) => criteria[key] !== undefined && log[key] !== criteria[key])
+		.map(
+			(key) =>
+				`${key}: expected ${JSON.stringify(criteria[key])}, received ${JSON.stringify(log[key])}`,
+		);
+}
+
+function toHaveFetched(received: unknown, criteria?: CallCriteria): MatcherResult {
+	const history = toHistory(received);
+	const matched = filter(history, criteria);
+	const pass = matched.length > 0;
+	return {
+		pass,
+		message: () =>
+			pass
+				? `expected no fetch${describeCriteria(criteria)}, but ${formatTimes(matched.length)} matched:${listCalls(matched)}`
+				: `expected a fetch${describeCriteria(criteria)}, but none of ${formatTimes(history.length)} matched:${listCalls(history.all(), (log) => diffCriteria(log, criteria))}`,
+	};
+}
+
+function toHaveFetchedTimes(
+	received: unknown,
+	times: number,
+	criteria?: CallCriteria,
+): MatcherResult {
+	const matched = filter(toHistory(received), criteria);
+	const pass = matched.length === times;
+	return {
+		pass,
+		message: () =>
+			`expected ${pass ? 'not ' : ''}${formatTimes(times)}${describeCriteria(criteria)}, received ${formatTimes(matched.length)}:${listCalls(matched)}`,
+	};
+}
+
+function toHaveFetchedWithBody(
+	received: unknown,
+	body: BodyMatcher,
+	criteria?: CallCriteria,
+): MatcherResult {
+	const candidates = filter(toHistory(received), criteria);
+	const matched = candidates.filter((log) => diffBody(log.body, body).length === 0);
+	const pass = matched.length > 0;
+	return {
+		pass,
+		message: () =>
+			pass
+				? `expected no fetch${describeCriteria(criteria)} with a matching body, but ${formatTimes(matched.length)} matched:${listCalls(matched)}`
+				: `expected a fetch${describeCriteria(criteria)} with a matching body, but none of ${formatTimes(candidates.length)} matched:${listCalls(candidates, (log) => diffBody(log.body, body))}`,
+	};
+}
+
+function toHaveNoPendingInterceptors(received: unknown): MatcherResult {
+	if (!(received instanceof FetchMock)) {
+		throw new TypeError('Expected a FetchMock instance.');
+	}
+	try {
+		received.assertNoPendingInterceptors();
+	} catch (error) {
+		return { pass: false, message: () => (error as Error).message };
+	}
+	return { pass: true, message: () => 'expected pending interceptors, but all were consumed' };
+}
+
+/** Matcher implementations for `expect.extend()`. */
+export const fetchMatchers = {
+	toHaveFetched,
+	toHaveFetchedTimes,
+	toHaveFetchedWithBody,
+	toHaveNoPendingInterceptors,
+};
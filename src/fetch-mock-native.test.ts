@@ -1,5 +1,13 @@
+import { createServer, type Server } from 'node:http';
 import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
-import { createFetchMock, FetchMock, fetchMock as singletonFetchMock } from './native';
+import { HandlerFactory } from './handler-factory';
+import { createLegacyHandlerFactory, type LegacyRestApi } from './legacy-handler-factory';
+import {
+	createFetchMock,
+	FetchMock,
+	NativeHandlerFactory,
+	fetchMock as singletonFetchMock,
+} from './native';
 
 const API_BASE = 'http://localhost:8787';
 const API_PREFIX = 'api';
@@ -121,6 +129,31 @@ describe('FetchMock (native adapter)', () => {
 		});
 	});
 
+	describe('method matching', () => {
+		it('should intercept HEAD request without a response body', async () => {
+			fetchMock
+				.get(`${API_BASE}/${API_PREFIX}`)
+				.intercept({ path: '/posts/1', method: 'HEAD' })
+				.reply(200, { id: '1' });
+
+			const response = await fetch(`${API_BASE}/${API_PREFIX}/posts/1`, { method: 'HEAD' });
+
+			expect(response.status).toBe(200);
+			expect(response.body).toBeNull();
+		});
+
+		it('should intercept custom verbs', async () => {
+			fetchMock
+				.get(`${API_BASE}/${API_PREFIX}`)
+				.intercept({ path: '/files', method: 'PROPFIND' })
+				.reply(207, { multistatus: [] });
+
+			const response = await fetch(`${API_BASE}/${API_PREFIX}/files`, { method: 'PROPFIND' });
+
+			expect(response.status).toBe(207);
+		});
+	});
+
 	describe('call history', () => {
 		it('should record GET request properties', async () => {
 			fetchMock
@@ -198,6 +231,128 @@ describe('FetchMock (native adapter)', () => {
 
 			await expect(fetch(`${API_BASE}/${API_PREFIX}/fail`)).rejects.toThrow();
 		});
+
+		it('should reject with the supplied error instance', async () => {
+			const error = Object.assign(new Error('read ECONNRESET'), { code: 'ECONNRESET' });
+			fetchMock
+				.get(`${API_BASE}/${API_PREFIX}`)
+				.intercept({ path: '/fail', method: 'GET' })
+				.replyWithError(error);
+
+			await expect(fetch(`${API_BASE}/${API_PREFIX}/fail`)).rejects.toBe(error);
+		});
+
+		it('should reject with a generic TypeError when no error is supplied', async () => {
+			fetchMock
+				.get(`${API_BASE}/${API_PREFIX}`)
+				.intercept({ path: '/fail', method: 'GET' })
+				.replyWithError();
+
+			await expect(fetch(`${API_BASE}/${API_PREFIX}/fail`)).rejects.toThrow(
+				new TypeError('Failed to fetch'),
+			);
+		});
+	});
+
+	describe('form data matching', () => {
+		it('should match multipart uploads and record them', async () => {
+			fetchMock
+				.get(`${API_BASE}/${API_PREFIX}`)
+				.intercept({
+					path: '/upload',
+					method: 'POST',
+					formData: { title: /^Re/, file: { name: 'report.csv', size: 3 } },
+				})
+				.reply(201, {});
+
+			const form = new FormData();
+			form.append('title', 'Report');
+			form.append('file', new File(['a,b'], 'report.csv', { type: 'text/csv' }));
+			const response = await fetch(`${API_BASE}/${API_PREFIX}/upload`, {
+				method: 'POST',
+				body: form,
+			});
+
+			expect(response.status).toBe(201);
+			const formData = await fetchMock.calls.lastCall()!.formData();
+			expect(formData.get('title')).toBe('Report');
+			expect((formData.get('file') as File).name).toBe('report.csv');
+		});
+	});
+
+	describe('reply sequences', () => {
+		it('should serve each step once, then repeat the last', async () => {
+			fetchMock
+				.get(`${API_BASE}/${API_PREFIX}`)
+				.intercept({ path: '/retry' })
+				.replySequence([503, new Error('reset'), { statusCode: 200, data: { ok: true } }], {
+					whenExhausted: 'repeat',
+				});
+
+			const url = `${API_BASE}/${API_PREFIX}/retry`;
+			expect((await fetch(url)).status).toBe(503);
+			await expect(fetch(url)).rejects.toThrow('reset');
+			expect(await (await fetch(url)).json()).toEqual({ ok: true });
+			expect((await fetch(url)).status).toBe(200);
+		});
+	});
+
+	describe('raw body replies', () => {
+		it('should send string bodies as text', async () => {
+			fetchMock
+				.get(API_BASE)
+				.intercept({ path: '/page' })
+				.replyText(200, '<p>hi</p>', {
+					headers: { 'Content-Type': 'text/html' },
+				});
+
+			const response = await fetch(`${API_BASE}/page`);
+
+			expect(response.headers.get('Content-Type')).toBe('text/html');
+			expect(await response.text()).toBe('<p>hi</p>');
+		});
+
+		it('should send binary bodies unchanged', async () => {
+			const bytes = new Uint8Array([0, 255, 128]);
+			fetchMock.get(API_BASE).intercept({ path: '/bin' }).replyBinary(200, bytes);
+
+			const response = await fetch(`${API_BASE}/bin`);
+
+			expect(response.headers.get('Content-Type')).toBe('application/octet-stream');
+			expect(new Uint8Array(await response.arrayBuffer())).toEqual(bytes);
+		});
+	});
+
+	describe('replyStream / replySse', () => {
+		it('should stream chunks', async () => {
+			fetchMock
+				.get(`${API_BASE}/${API_PREFIX}`)
+				.intercept({ path: '/stream' })
+				.replyStream(200, ['a', 'b', 'c'], { chunkDelay: 5 });
+
+			const response = await fetch(`${API_BASE}/${API_PREFIX}/stream`);
+			const reader = response.body!.getReader();
+			const chunks: Uint8Array[] = [];
+			for (;;) {
+				const { value, done } = await reader.read();
+				if (done) break;
+				chunks.push(value);
+			}
+
+			expect(chunks).toHaveLength(3);
+		});
+
+		it('should reply with Server-Sent Events', async () => {
+			fetchMock
+				.get(`${API_BASE}/${API_PREFIX}`)
+				.intercept({ path: '/events' })
+				.replySse([{ event: 'token', data: 'hi' }]);
+
+			const response = await fetch(`${API_BASE}/${API_PREFIX}/events`);
+
+			expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+			expect(await response.text()).toBe('event: token\ndata: hi\n\n');
+		});
 	});
 
 	describe('delay', () => {
@@ -253,6 +408,51 @@ describe('FetchMock (native adapter)', () => {
 			expect(response.status).toBe(201);
 			expect(await response.json()).toEqual({ echo: { msg: 'hello' } });
 		});
+
+		it('should pass the request context and params to the callback', async () => {
+			fetchMock
+				.get(`${API_BASE}/${API_PREFIX}`)
+				.intercept({ path: /^\/users\/(?<id>\d+)/, method: 'PUT' })
+				.reply((req) => ({
+					statusCode: 200,
+					data: { id: req.params.id, q: req.searchParams.get('q'), json: req.json },
+				}));
+
+			const response = await fetch(`${API_BASE}/${API_PREFIX}/users/7?q=x`, {
+				method: 'PUT',
+				body: JSON.stringify({ name: 'Bob' }),
+			});
+
+			expect(await response.json()).toEqual({ id: '7', q: 'x', json: { name: 'Bob' } });
+		});
+
+		it('should pass template params to the callback', async () => {
+			fetchMock
+				.get(`${API_BASE}/${API_PREFIX}`)
+				.intercept({ path: '/users/:id/posts/:postId?' })
+				.reply((req) => ({ statusCode: 200, data: req.params }));
+
+			const response = await fetch(`${API_BASE}/${API_PREFIX}/users/3/posts`);
+
+			expect(await response.json()).toEqual({ id: '3' });
+			expect(fetchMock.calls.lastCall()?.params).toEqual({ id: '3' });
+		});
+
+		it('should pass a returned Response through untouched', async () => {
+			fetchMock
+				.get(`${API_BASE}/${API_PREFIX}`)
+				.intercept({ path: '/raw' })
+				.reply(
+					() =>
+						new Response('<p>hi</p>', { status: 203, headers: { 'Content-Type': 'text/html' } }),
+				);
+
+			const response = await fetch(`${API_BASE}/${API_PREFIX}/raw`);
+
+			expect(response.status).toBe(203);
+			expect(response.headers.get('content-type')).toBe('text/html');
+			expect(await response.text()).toBe('<p>hi</p>');
+		});
 	});
 
 	describe('reply with headers', () => {
@@ -299,6 +499,73 @@ describe('FetchMock (native adapter)', () => {
 	});
 });
 
+describe.each([
+	['native', NativeHandlerFactory],
+	['MSW v2', HandlerFactory],
+	['legacy', createLegacyHandlerFactory({} as LegacyRestApi)],
+])('replyContentLength with %s buildResponse', (_, factory) => {
+	const fetchMock = createFetchMock();
+
+	beforeAll(async () => {
+		// Route requests through the native adapter while encoding bodies with `factory`
+		FetchMock._handlerFactory = { ...NativeHandlerFactory, buildResponse: factory.buildResponse };
+		await fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+		fetchMock.reset();
+	});
+
+	afterAll(() => {
+		fetchMock.deactivate();
+		FetchMock._handlerFactory = NativeHandlerFactory;
+	});
+
+	it.each([
+		['ASCII JSON', { message: 'hello' }],
+		['non-ASCII JSON', { name: '山田太郎', emoji: '🎉✨' }],
+		['text', 'Grüße, 世界'],
+		['binary', new Uint8Array([0, 1, 2, 255])],
+	])('should match the byte length of a %s body', async (_, body) => {
+		fetchMock.get(API_BASE).intercept({ path: '/data' }).reply(200, body).replyContentLength();
+
+		const response = await fetch(`${API_BASE}/data`);
+		const bytes = await response.arrayBuffer();
+
+		expect(Number(response.headers.get('Content-Length'))).toBe(bytes.byteLength);
+	});
+});
+
+describe('handler factory without buildStreamResponse (native)', () => {
+	const fetchMock = createFetchMock();
+
+	beforeAll(async () => {
+		FetchMock._handlerFactory = { ...NativeHandlerFactory, buildStreamResponse: undefined };
+		await fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterAll(() => {
+		fetchMock.deactivate();
+		FetchMock._handlerFactory = NativeHandlerFactory;
+	});
+
+	it('should fall back to a plain Response for streamed replies', async () => {
+		fetchMock
+			.get(API_BASE)
+			.intercept({ path: '/stream' })
+			.replyStream(201, ['a', 'b'], { headers: { 'X-Stream': '1' } });
+
+		const response = await fetch(`${API_BASE}/stream`);
+
+		expect(response.status).toBe(201);
+		expect(response.headers.get('x-stream')).toBe('1');
+		expect(await response.text()).toBe('ab');
+	});
+});
+
 describe('singleton export (native)', () => {
 	it('should export fetchMock as a FetchMock instance', () => {
 		expect(singletonFetchMock).toBeInstanceOf(FetchMock);
@@ -316,3 +583,43 @@ describe('activate returns promise (native)', () => {
 		fm.deactivate();
 	});
 });
+
+describe('record and replay (native)', () => {
+	const fm = createFetchMock();
+	// Local stand-in for a real API, so recording runs offline
+	const server: Server = createServer((req, res) => {
+		res.writeHead(200, { 'content-type': 'text/plain' });
+		res.end(`${req.method} ${req.url}`);
+	});
+	let origin = '';
+
+	beforeAll(async () => {
+		await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+		origin = `http://127.0.0.1:${(server.address() as { port: number }).port}`;
+		await fm.activate();
+	});
+
+	afterAll(async () => {
+		fm.deactivate();
+		server.closeAllConnections();
+		await new Promise((resolve) => server.close(resolve));
+	});
+
+	it('should capture passthrough requests and replay them offline', async () => {
+		fm.enableNetConnect(/^127\.0\.0\.1:/);
+		fm.startRecording();
+		const live = await fetch(`${origin}/status`);
+		const fixture = fm.stopRecording();
+		fm.disableNetConnect();
+
+		expect(await live.text()).toBe('GET /status');
+		expect(fixture.entries[0].response).toMatchObject({ status: 200, body: 'GET /status' });
+
+		fm.replay(fixture);
+		const replayed = await fetch(`${origin}/status`);
+
+		expect(replayed.headers.get('content-type')).toBe('text/plain');
+		expect(await replayed.text()).toBe('GET /status');
+		fm.assertNoPendingInterceptors();
+	});
+});
@@ -1,9 +1,34 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { createServer, type Server } from 'node:http';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { gzipSync } from 'node:zlib';
 import { setupServer } from 'msw/node';
-import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+	afterAll,
+	afterEach,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	expectTypeOf,
+	it,
+	vi,
+} from 'vitest';
 import { FetchMock } from './fetch-mock';
+import { anyString, partial } from './matchers';
 import { createFetchMock, fetchMock as singletonFetchMock } from './node';
 import { NodeMswAdapter } from './node-adapter';
-import { type MswAdapter, type SetupServerLike, type SetupWorkerLike } from './types';
+import { loadOpenApi } from './openapi';
+import {
+	type BinaryBody,
+	type Har,
+	type MswAdapter,
+	type OpenApiDocument,
+	type ReplyRequest,
+	type SetupServerLike,
+	type SetupWorkerLike,
+} from './types';
 
 const API_BASE = 'http://localhost:8787';
 const API_PREFIX = 'api';
@@ -125,6 +150,91 @@ describe('FetchMock', () => {
 		});
 	});
 
+	describe('method matching', () => {
+		it('should intercept HEAD request without a response body', async () => {
+			fetchMock
+				.get(`${API_BASE}/${API_PREFIX}`)
+				.intercept({ path: '/posts/1', method: 'HEAD' })
+				.reply(200, { id: '1' }, { headers: { 'X-Exists': 'yes' } });
+
+			const response = await fetch(`${API_BASE}/${API_PREFIX}/posts/1`, { method: 'HEAD' });
+
+			expect(response.status).toBe(200);
+			expect(response.headers.get('X-Exists')).toBe('yes');
+			expect(response.headers.get('Content-Type')).toBe('application/json');
+			expect(await response.text()).toBe('');
+		});
+
+		it('should intercept OPTIONS request', async () => {
+			fetchMock
+				.get(`${API_BASE}/${API_PREFIX}`)
+				.intercept({ path: '/posts', method: 'OPTIONS' })
+				.reply(204, null, { headers: { Allow: 'GET, POST' } });
+
+			const response = await fetch(`${API_BASE}/${API_PREFIX}/posts`, { method: 'OPTIONS' });
+
+			expect(response.status).toBe(204);
+			expect(response.headers.get('Allow')).toBe('GET, POST');
+		});
+
+		it('should intercept custom WebDAV verbs', async () => {
+			fetchMock
+				.get(`${API_BASE}/${API_PREFIX}`)
+				.intercept({ path: '/files', method: 'PROPFIND' })
+				.reply(207, { multistatus: [] });
+
+			const response = await fetch(`${API_BASE}/${API_PREFIX}/files`, { method: 'PROPFIND' });
+
+			expect(response.status).toBe(207);
+			expect(await response.json()).toEqual({ multistatus: [] });
+		});
+
+		it('should match any method in an array', async () => {
+			fetchMock
+				.get(`${API_BASE}/${API_PREFIX}`)
+				.intercept({ path: '/posts', method: ['PUT', 'PATCH'] })
+				.reply(200, { updated: true })
+				.times(2);
+
+			const put = await fetch(`${API_BASE}/${API_PREFIX}/posts`, { method: 'PUT' });
+			const patch = await fetch(`${API_BASE}/${API_PREFIX}/posts`, { method: 'PATCH' });
+
+			expect(put.status).toBe(200);
+			expect(patch.status).toBe(200);
+		});
+
+		it('should match method with RegExp and predicate', async () => {
+			fetchMock
+				.get(`${API_BASE}/${API_PREFIX}`)
+				.intercept({ path: '/report', method: /^REP/ })
+				.reply(200, { via: 'regexp' });
+			fetchMock
+				.get(`${API_BASE}/${API_PREFIX}`)
+				.intercept({ path: '/report', method: (m) => m !== 'GET' })
+				.reply(200, { via: 'predicate' });
+
+			const first = await fetch(`${API_BASE}/${API_PREFIX}/report`, { method: 'REPORT' });
+			const second = await fetch(`${API_BASE}/${API_PREFIX}/report`, { method: 'DELETE' });
+
+			expect(await first.json()).toEqual({ via: 'regexp' });
+			expect(await second.json()).toEqual({ via: 'predicate' });
+		});
+
+		it('should render method matchers in pending interceptors', () => {
+			const pool = fetchMock.get(`${API_BASE}/${API_PREFIX}`);
+			pool.intercept({ path: '/a', method: 'propfind' }).reply(200, {});
+			pool.intercept({ path: '/b', method: ['GET', 'HEAD'] }).reply(200, {});
+			pool.intercept({ path: '/c', method: /^P/ }).reply(200, {});
+
+			expect(fetchMock.pendingInterceptors().map((p) => p.method)).toEqual([
+				'PROPFIND',
+				'GET|HEAD',
+				'/^P/',
+			]);
+			fetchMock.reset();
+		});
+	});
+
 	describe('external origin', () => {
 		it('should intercept requests to a different origin', async () => {
 			fetchMock
@@ -402,6 +512,48 @@ describe('query matching', () => {
 		expect(response.status).toBe(200);
 		expect(await response.json()).toEqual({ posts: [] });
 	});
+
+	it('should match query values with RegExp, arrays and absent params', async () => {
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({
+				path: '/posts',
+				query: { page: /^\d+$/, tag: ['a', 'b'], draft: null },
+			})
+			.reply(200, { posts: [] });
+
+		const response = await fetch(`${API_BASE}/${API_PREFIX}/posts?page=3&tag=a&tag=b`);
+
+		expect(response.status).toBe(200);
+	});
+
+	it('should reject extra params with strictQuery', async () => {
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/posts', query: { limit: '10' }, strictQuery: true })
+			.reply(200, { strict: true });
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/posts', query: { limit: '10' } })
+			.reply(200, { strict: false });
+
+		const response = await fetch(`${API_BASE}/${API_PREFIX}/posts?limit=10&offset=0`);
+		const exact = await fetch(`${API_BASE}/${API_PREFIX}/posts?limit=10`);
+
+		expect(await response.json()).toEqual({ strict: false });
+		expect(await exact.json()).toEqual({ strict: true });
+	});
+
+	it('should allow extra params in a path query string with strictQuery: false', async () => {
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/posts?limit=10', strictQuery: false })
+			.reply(200, { posts: [] });
+
+		const response = await fetch(`${API_BASE}/${API_PREFIX}/posts?limit=10&offset=0`);
+
+		expect(response.status).toBe(200);
+	});
 });
 
 describe('times', () => {
@@ -586,6 +738,97 @@ describe('assertNoPendingInterceptors', () => {
 
 		expect(() => fetchMock.assertNoPendingInterceptors()).toThrow(/pending interceptor/i);
 	});
+
+	it('should report invocations, matchers, call site and unmatched requests', async () => {
+		fetchMock
+			.get(API_BASE)
+			.intercept({
+				path: '/api/users',
+				method: 'POST',
+				query: { team: 'a' },
+				headers: { authorization: /^Bearer / },
+				body: { name: 'Alice' },
+			})
+			.reply(201, {})
+			.times(2);
+		await fetch(`${API_BASE}/api/other`).catch(() => null);
+
+		expect(() => fetchMock.assertNoPendingInterceptors()).toThrow(
+			[
+				'Pending interceptor(s) not consumed:',
+				`  POST ${API_BASE}/api/users`,
+				'      invoked 0 of 2 times',
+				'      query.team: "a"',
+				'      headers.authorization: /^Bearer /',
+				'      body: {"name":"Alice"}',
+				'      registered at ',
+			].join('\n'),
+		);
+		expect(() => fetchMock.assertNoPendingInterceptors()).toThrow(
+			`Unmatched requests:\n  GET ${API_BASE}/api/other`,
+		);
+		expect(() => fetchMock.assertNoPendingInterceptors()).toThrow(/fetch-mock\.test\.ts:\d+:\d+/);
+	});
+
+	it('should expose the report data through pendingInterceptors()', () => {
+		fetchMock
+			.get(API_BASE)
+			.intercept({ path: '/api/users', headers: { 'x-id': '1' } })
+			.reply(200);
+
+		const [pending] = fetchMock.pendingInterceptors();
+
+		expect(pending.matchers).toEqual({ headers: { 'x-id': '"1"' } });
+		expect(pending.stack).toMatch(/fetch-mock\.test\.ts/);
+	});
+
+	it('should point at the test for chained and replayed interceptors', () => {
+		fetchMock
+			.get(API_BASE)
+			.intercept({ path: '/api/first' })
+			.reply(200)
+			.intercept({ path: '/api/second' })
+			.reply(200);
+		fetchMock.replay({
+			version: 1,
+			entries: [
+				{
+					request: { method: 'GET', url: `${API_BASE}/api/fixture`, headers: {} },
+					response: { status: 200, headers: {}, body: '' },
+				},
+			],
+		});
+
+		const frames = fetchMock.pendingInterceptors().map((p) => p.stack?.split('\n')[0]);
+
+		expect(frames).toHaveLength(3);
+		for (const frame of frames) expect(frame).toMatch(/fetch-mock\.test\.ts:\d+:\d+/);
+	});
+
+	it('should format the report as a table, as JSON or with a custom formatter', () => {
+		fetchMock.get(API_BASE).intercept({ path: '/api/users' }).reply(200).persist();
+
+		expect(() => fetchMock.assertNoPendingInterceptors({ format: 'table' })).toThrow(
+			`| GET | ${API_BASE}/api/users | 0 | persist |  |`,
+		);
+
+		let json = '';
+		try {
+			fetchMock.assertNoPendingInterceptors({ format: 'json' });
+		} catch (error) {
+			json = (error as Error).message;
+		}
+		expect(JSON.parse(json)).toMatchObject({
+			pending: [{ method: 'GET', path: '/api/users', persist: true, timesInvoked: 0 }],
+			unmatchedRequests: [],
+		});
+
+		expect(() =>
+			fetchMock.assertNoPendingInterceptors({
+				format: ({ pending }) => `${pending.length} pending`,
+			}),
+		).toThrow('1 pending');
+	});
 });
 
 describe('reset', () => {
@@ -827,6 +1070,57 @@ describe('call history', () => {
 
 		expect(fetchMock.calls.length).toBe(5);
 	});
+
+	it('should record the response sent for each call', async () => {
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/posts', method: 'POST' })
+			.reply(201, { id: '1' }, { headers: { 'x-request-id': 'abc' } })
+			.delay(20);
+
+		const res = await fetch(`${API_BASE}/${API_PREFIX}/posts`, { method: 'POST', body: '{}' });
+		await res.json();
+
+		const call = fetchMock.calls.lastCall()!;
+		expect(call.status).toBe(201);
+		expect(call.responseHeaders).toMatchObject({
+			'content-type': 'application/json',
+			'x-request-id': 'abc',
+		});
+		expect(call.responseBody).toBe('{"id":"1"}');
+		expect(call.delay).toBe(20);
+		expect(call.error).toBe(false);
+		expect(call.respondedAt! - call.requestedAt!).toBe(call.duration);
+		expect(call.duration).toBeGreaterThanOrEqual(15);
+	});
+
+	it('should record binary reply bodies as base64', async () => {
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/avatar.png' })
+			.replyBinary(200, new Uint8Array([0xff, 0x00, 0x01]));
+
+		const response = await fetch(`${API_BASE}/${API_PREFIX}/avatar.png`);
+
+		// Captured before the response was returned, whether or not it is consumed
+		const call = fetchMock.calls.lastCall()!;
+		expect(call.responseBody).toBe('/wAB');
+		expect(call.responseEncoding).toBe('base64');
+		expect(fetchMock.calls.toHar().log.entries[0].response.content.text).toBe('/wAB');
+		await response.arrayBuffer();
+	});
+
+	it('should flag error replies in the call log', async () => {
+		fetchMock.get(`${API_BASE}/${API_PREFIX}`).intercept({ path: '/posts' }).replyWithError();
+
+		await fetch(`${API_BASE}/${API_PREFIX}/posts`).catch(() => null);
+
+		const call = fetchMock.calls.lastCall()!;
+		expect(call.error).toBe(true);
+		expect(call.status).toBe(0);
+		expect(call.responseBody).toBeNull();
+		expect(call.delay).toBe(0);
+	});
 });
 
 describe('enableNetConnect', () => {
@@ -913,6 +1207,251 @@ describe('replyWithError', () => {
 	});
 });
 
+describe('raw body replies', () => {
+	const fetchMock = createFetchMock();
+
+	beforeAll(async () => {
+		await fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+		fetchMock.reset();
+	});
+	afterAll(() => fetchMock.deactivate());
+
+	it('should send string bodies as text without JSON encoding', async () => {
+		fetchMock.get(API_BASE).intercept({ path: '/report.csv' }).reply(200, 'id,name\n1,Alice');
+
+		const response = await fetch(`${API_BASE}/report.csv`);
+
+		expect(response.headers.get('Content-Type')).toMatch(/^text\/plain/);
+		expect(await response.text()).toBe('id,name\n1,Alice');
+	});
+
+	it('should keep an explicit content type for string bodies', async () => {
+		fetchMock
+			.get(API_BASE)
+			.intercept({ path: '/page' })
+			.reply(200, '<h1>Hi</h1>', { headers: { 'Content-Type': 'text/html' } });
+
+		const response = await fetch(`${API_BASE}/page`);
+
+		expect(response.headers.get('Content-Type')).toBe('text/html');
+		expect(await response.text()).toBe('<h1>Hi</h1>');
+	});
+
+	it('should send typed arrays as binary', async () => {
+		const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+		fetchMock.get(API_BASE).intercept({ path: '/logo.png' }).reply(200, png);
+
+		const response = await fetch(`${API_BASE}/logo.png`);
+
+		expect(response.headers.get('Content-Type')).toBe('application/octet-stream');
+		expect(new Uint8Array(await response.arrayBuffer())).toEqual(png);
+	});
+
+	it('should use the Blob type as content type', async () => {
+		fetchMock
+			.get(API_BASE)
+			.intercept({ path: '/image' })
+			.reply(200, new Blob(['<svg/>'], { type: 'image/svg+xml' }));
+
+		const response = await fetch(`${API_BASE}/image`);
+
+		expect(response.headers.get('Content-Type')).toBe('image/svg+xml');
+		expect(await response.text()).toBe('<svg/>');
+	});
+
+	it('should send FormData as multipart', async () => {
+		const form = new FormData();
+		form.append('name', 'Alice');
+		fetchMock.get(API_BASE).intercept({ path: '/form' }).reply(200, form);
+
+		const response = await fetch(`${API_BASE}/form`);
+
+		expect(response.headers.get('Content-Type')).toMatch(/^multipart\/form-data; boundary=/);
+		expect((await response.formData()).get('name')).toBe('Alice');
+	});
+
+	it('should send URLSearchParams as urlencoded', async () => {
+		fetchMock
+			.get(API_BASE)
+			.intercept({ path: '/token' })
+			.reply(200, new URLSearchParams({ access_token: 'abc' }));
+
+		const response = await fetch(`${API_BASE}/token`);
+
+		expect(response.headers.get('Content-Type')).toMatch(/^application\/x-www-form-urlencoded/);
+		expect(await response.text()).toBe('access_token=abc');
+	});
+
+	it('should still JSON-encode plain objects', async () => {
+		fetchMock.get(API_BASE).intercept({ path: '/json' }).reply(200, { ok: true });
+
+		const response = await fetch(`${API_BASE}/json`);
+
+		expect(response.headers.get('Content-Type')).toBe('application/json');
+		expect(await response.json()).toEqual({ ok: true });
+	});
+
+	it('should reply with text via replyText()', async () => {
+		fetchMock.get(API_BASE).intercept({ path: '/health' }).replyText(200, 'OK');
+
+		const response = await fetch(`${API_BASE}/health`);
+
+		expect(response.headers.get('Content-Type')).toMatch(/^text\/plain/);
+		expect(await response.text()).toBe('OK');
+	});
+
+	it('should reply with binary via replyBinary()', async () => {
+		const bytes = new Uint8Array([1, 2, 3]);
+		fetchMock
+			.get(API_BASE)
+			.intercept({ path: '/file' })
+			.replyBinary(200, bytes.buffer, { headers: { 'Content-Type': 'application/pdf' } });
+
+		const response = await fetch(`${API_BASE}/file`);
+
+		expect(response.headers.get('Content-Type')).toBe('application/pdf');
+		expect(new Uint8Array(await response.arrayBuffer())).toEqual(bytes);
+	});
+
+	it('should accept any Uint8Array or Buffer in replyBinary()', async () => {
+		const view: Uint8Array = new Uint8Array([0, 1, 2, 3, 4]).subarray(1, 4);
+		const buffer = Buffer.from([5, 6]);
+		expectTypeOf(view).toExtend<BinaryBody>();
+		expectTypeOf(buffer).toExtend<BinaryBody>();
+		fetchMock.get(API_BASE).intercept({ path: '/view' }).replyBinary(200, view);
+		fetchMock.get(API_BASE).intercept({ path: '/buffer' }).replyBinary(200, buffer);
+
+		const fromView = await fetch(`${API_BASE}/view`);
+		const fromBuffer = await fetch(`${API_BASE}/buffer`);
+
+		expect(new Uint8Array(await fromView.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]));
+		expect(new Uint8Array(await fromBuffer.arrayBuffer())).toEqual(new Uint8Array([5, 6]));
+	});
+});
+
+describe('replyStream / replySse', () => {
+	const fetchMock = createFetchMock();
+
+	beforeAll(async () => {
+		await fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+		fetchMock.reset();
+	});
+	afterAll(() => fetchMock.deactivate());
+
+	it('should stream chunks as they are produced', async () => {
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/completions', method: 'POST' })
+			.replyStream(200, ['Hel', 'lo', ' world'], {
+				chunkDelay: 10,
+				headers: { 'Content-Type': 'text/plain' },
+			});
+
+		const response = await fetch(`${API_BASE}/${API_PREFIX}/completions`, { method: 'POST' });
+		const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+		const received: string[] = [];
+		for (;;) {
+			const { value, done } = await reader.read();
+			if (done) break;
+			received.push(value);
+		}
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get('Content-Type')).toBe('text/plain');
+		expect(received.join('')).toBe('Hello world');
+	});
+
+	it('should accept an async iterable of chunks', async () => {
+		async function* tokens() {
+			yield 'a';
+			yield new TextEncoder().encode('b');
+		}
+
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/stream' })
+			.replyStream(200, tokens);
+
+		const response = await fetch(`${API_BASE}/${API_PREFIX}/stream`);
+
+		expect(await response.text()).toBe('ab');
+	});
+
+	it('should reply with Server-Sent Events', async () => {
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/events' })
+			.replySse([{ event: 'open', retry: 1000 }, 'hello', { id: '2', data: { done: true } }]);
+
+		const response = await fetch(`${API_BASE}/${API_PREFIX}/events`);
+
+		expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+		expect(response.headers.get('Cache-Control')).toBe('no-cache');
+		expect(await response.text()).toBe(
+			'event: open\nretry: 1000\n\ndata: hello\n\nid: 2\ndata: {"done":true}\n\n',
+		);
+	});
+
+	it('should record streamed replies in call history', async () => {
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/events', method: 'POST' })
+			.replySse(['x']);
+
+		const response = await fetch(`${API_BASE}/${API_PREFIX}/events`, {
+			method: 'POST',
+			body: '{"prompt":"hi"}',
+		});
+		await response.text();
+
+		expect(fetchMock.calls.lastCall()?.json()).toEqual({ prompt: 'hi' });
+	});
+
+	it('should not pull a streamed reply ahead of the consumer', async () => {
+		let pulled = 0;
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/events' })
+			.replySse(function* () {
+				for (;;) yield `event ${++pulled}`;
+			});
+
+		const response = await fetch(`${API_BASE}/${API_PREFIX}/events`);
+		const reader = response.body!.getReader();
+		await reader.read();
+		await new Promise((resolve) => setTimeout(resolve, 100));
+
+		expect(pulled).toBeLessThan(10);
+		expect(fetchMock.calls.lastCall()?.responseBody).toBeNull();
+	});
+
+	it('should produce a fresh stream for every invocation', async () => {
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/stream' })
+			.replyStream(200, function* () {
+				yield 'again';
+			})
+			.times(2);
+
+		const first = await fetch(`${API_BASE}/${API_PREFIX}/stream`);
+		const second = await fetch(`${API_BASE}/${API_PREFIX}/stream`);
+
+		expect(await first.text()).toBe('again');
+		expect(await second.text()).toBe('again');
+	});
+});
+
 describe('delay', () => {
 	const fetchMock = createFetchMock();
 
@@ -981,45 +1520,154 @@ describe('onUnhandledRequest', () => {
 		}
 	});
 
-	it('should allow unhandled requests through when onUnhandledRequest is "warn"', async () => {
+	it('should print a JSON body diff for near-miss interceptors', async () => {
 		const fm = createFetchMock();
-		await fm.activate({ onUnhandledRequest: 'warn' });
+		await fm.activate({
+			onUnhandledRequest: (_request, print) => {
+				print.warning();
+				print.error();
+			},
+		});
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
 
 		try {
-			const error = await fetch('http://192.0.2.1:1/test').catch((e: unknown) => e);
-			expect(error).toBeInstanceOf(Error);
-			expect((error as Error).message).not.toMatch(/request handler/i);
+			fm.get(`${API_BASE}/${API_PREFIX}`)
+				.intercept({ path: '/users', method: 'POST', body: { name: 'Alice' } })
+				.reply(201, {});
+
+			await expect(
+				fetch(`${API_BASE}/${API_PREFIX}/users`, {
+					method: 'POST',
+					body: JSON.stringify({ name: 'Bob' }),
+				}),
+			).rejects.toThrow();
+
+			const message = warn.mock.calls[0][0] as string;
+			expect(message).toContain('Closest pending interceptors');
+			expect(message).toContain(`POST ${API_BASE}/${API_PREFIX}/users`);
+			expect(message).toContain('$.name: expected "Alice", received "Bob"');
 		} finally {
+			warn.mockRestore();
 			fm.deactivate();
 		}
 	});
 
-	it('should silently allow unhandled requests when onUnhandledRequest is "bypass"', async () => {
+	it('should list the closest interceptors with the criteria that failed', async () => {
 		const fm = createFetchMock();
-		await fm.activate({ onUnhandledRequest: 'bypass' });
+		await fm.activate({ onUnhandledRequest: 'warn' });
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
 
 		try {
-			const error = await fetch('http://192.0.2.1:1/test').catch((e: unknown) => e);
-			expect(error).toBeInstanceOf(Error);
-			expect((error as Error).message).not.toMatch(/request handler/i);
+			fm.get(API_BASE)
+				.intercept({ path: '/api/users', method: 'POST', headers: { authorization: 'Bearer a' } })
+				.reply(201, {});
+			fm.get(API_BASE)
+				.intercept({ path: '/api/users', query: { page: '2' } })
+				.reply(200, []);
+			fm.get('http://localhost:9999').intercept({ path: '/api/users' }).reply(200, []);
+			fm.get(API_BASE).intercept({ path: '/api/posts', method: 'DELETE' }).reply(204);
+			fm.get('http://other.test').intercept({ path: '/elsewhere' }).reply(200, []);
+
+			await fetch(`${API_BASE}/api/users?page=1`).catch(() => null);
+
+			const message = warn.mock.calls[0][0] as string;
+			expect(message).toContain(
+				`  \u2022 GET ${API_BASE}/api/users\n      query.page: expected "2", received "1"`,
+			);
+			expect(message).toContain(
+				`  \u2022 GET http://localhost:9999/api/users\n      origin: expected http://localhost:9999, received ${API_BASE}`,
+			);
+			expect(message).toContain(
+				`  \u2022 POST ${API_BASE}/api/users\n` +
+					'      method: expected POST, received GET\n' +
+					'      headers.authorization: expected "Bearer a", received nothing',
+			);
+			expect(message).not.toContain('/api/posts');
+			expect(message).not.toContain('/elsewhere');
 		} finally {
+			warn.mockRestore();
 			fm.deactivate();
 		}
 	});
 
-	it('should invoke custom callback for unhandled requests', async () => {
+	it('should attach near-miss diagnostics to the error in "error" mode', async () => {
 		const fm = createFetchMock();
-		let capturedUrl = '';
-		await fm.activate({
-			onUnhandledRequest: (request) => {
-				capturedUrl = request.url;
-				// Not calling print.error() → request passes through
-			},
-		});
+		await fm.activate({ onUnhandledRequest: 'error' });
 
 		try {
-			await fetch('http://192.0.2.1:1/test').catch(() => null);
-			expect(capturedUrl).toBe('http://192.0.2.1:1/test');
+			fm.get(API_BASE).intercept({ path: '/api/users', method: 'POST' }).reply(201, {});
+
+			const error = await fetch(`${API_BASE}/api/users`).catch((e: unknown) => e);
+
+			expect(error).toBeInstanceOf(TypeError);
+			const cause = (error as Error).cause as Error;
+			expect(cause.message).toContain(`GET ${API_BASE}/api/users`);
+			expect(cause.message).toContain('method: expected POST, received GET');
+		} finally {
+			fm.deactivate();
+		}
+	});
+
+	it('should log near-miss diagnostics in "error" mode', async () => {
+		const fm = createFetchMock();
+		await fm.activate({ onUnhandledRequest: 'error' });
+		const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+		try {
+			await fetch(`${API_BASE}/api/users`).catch(() => null);
+			expect(error).not.toHaveBeenCalled();
+
+			fm.get(API_BASE).intercept({ path: '/api/users', method: 'POST' }).reply(201, {});
+			await fetch(`${API_BASE}/api/users`).catch(() => null);
+
+			const message = error.mock.calls[0][0] as string;
+			expect(message).toContain('Closest pending interceptors');
+			expect(message).toContain('method: expected POST, received GET');
+		} finally {
+			error.mockRestore();
+			fm.deactivate();
+		}
+	});
+
+	it('should allow unhandled requests through when onUnhandledRequest is "warn"', async () => {
+		const fm = createFetchMock();
+		await fm.activate({ onUnhandledRequest: 'warn' });
+
+		try {
+			const error = await fetch('http://192.0.2.1:1/test').catch((e: unknown) => e);
+			expect(error).toBeInstanceOf(Error);
+			expect((error as Error).message).not.toMatch(/request handler/i);
+		} finally {
+			fm.deactivate();
+		}
+	});
+
+	it('should silently allow unhandled requests when onUnhandledRequest is "bypass"', async () => {
+		const fm = createFetchMock();
+		await fm.activate({ onUnhandledRequest: 'bypass' });
+
+		try {
+			const error = await fetch('http://192.0.2.1:1/test').catch((e: unknown) => e);
+			expect(error).toBeInstanceOf(Error);
+			expect((error as Error).message).not.toMatch(/request handler/i);
+		} finally {
+			fm.deactivate();
+		}
+	});
+
+	it('should invoke custom callback for unhandled requests', async () => {
+		const fm = createFetchMock();
+		let capturedUrl = '';
+		await fm.activate({
+			onUnhandledRequest: (request) => {
+				capturedUrl = request.url;
+				// Not calling print.error() → request passes through
+			},
+		});
+
+		try {
+			await fetch('http://192.0.2.1:1/test').catch(() => null);
+			expect(capturedUrl).toBe('http://192.0.2.1:1/test');
 		} finally {
 			fm.deactivate();
 		}
@@ -1039,6 +1687,49 @@ describe('onUnhandledRequest', () => {
 		}
 	});
 
+	it('should record unmatched requests when recordUnmatched is enabled', async () => {
+		const fm = createFetchMock();
+		await fm.activate({ onUnhandledRequest: 'error', recordUnmatched: true });
+		fm.enableNetConnect('192.0.2.1:1');
+
+		try {
+			fm.get(API_BASE).intercept({ path: '/api/users' }).reply(200, []);
+
+			await fetch(`${API_BASE}/api/users`);
+			await fetch(`${API_BASE}/api/posts`, { method: 'POST', body: 'x' }).catch(() => null);
+			await fetch('http://192.0.2.1:1/test').catch(() => null);
+
+			expect(fm.calls.length).toBe(3);
+			expect(fm.calls.all().map((log) => log.matched)).toEqual([true, false, false]);
+			expect(
+				fm.calls.unmatched().map(({ method, fullUrl, body, passthrough }) => ({
+					method,
+					fullUrl,
+					body,
+					passthrough,
+				})),
+			).toEqual([
+				{ method: 'POST', fullUrl: `${API_BASE}/api/posts`, body: 'x', passthrough: false },
+				{ method: 'GET', fullUrl: 'http://192.0.2.1:1/test', body: null, passthrough: true },
+			]);
+		} finally {
+			fm.deactivate();
+		}
+	});
+
+	it('should not record unmatched requests by default', async () => {
+		const fm = createFetchMock();
+		await fm.activate({ onUnhandledRequest: 'error' });
+
+		try {
+			await fetch(`${API_BASE}/api/posts`).catch(() => null);
+			expect(fm.calls.length).toBe(0);
+			expect(fm.calls.unmatched()).toEqual([]);
+		} finally {
+			fm.deactivate();
+		}
+	});
+
 	it('should not call server.listen() for external server mode', async () => {
 		const externalServer = setupServer();
 		externalServer.listen();
@@ -1142,37 +1833,622 @@ describe('defaultReplyHeaders', () => {
 			.intercept({ path: '/data', method: 'GET' })
 			.reply(200, { ok: true });
 
-		const response = await fetch(`${API_BASE}/${API_PREFIX}/data`);
+		const response = await fetch(`${API_BASE}/${API_PREFIX}/data`);
+
+		expect(response.headers.get('X-Will-Be-Cleared')).toBeNull();
+	});
+});
+
+describe('replyWithError with Error parameter', () => {
+	const fetchMock = createFetchMock();
+
+	beforeAll(async () => {
+		await fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+		fetchMock.reset();
+	});
+	afterAll(() => fetchMock.deactivate());
+
+	it('should accept Error parameter and reject the fetch', async () => {
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/fail', method: 'GET' })
+			.replyWithError(new Error('custom network failure'));
+
+		await expect(fetch(`${API_BASE}/${API_PREFIX}/fail`)).rejects.toThrow();
+	});
+
+	it('should reject with a Node system error as-is', async () => {
+		const error = Object.assign(new Error('getaddrinfo ENOTFOUND api.test'), {
+			code: 'ENOTFOUND',
+			errno: -3008,
+		});
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/fail', method: 'GET' })
+			.replyWithError(error);
+
+		await expect(fetch(`${API_BASE}/${API_PREFIX}/fail`)).rejects.toBe(error);
+	});
+
+	it('should reject with errors that have a code but no errno as-is', async () => {
+		const error = Object.assign(new Error('certificate has expired'), {
+			code: 'CERT_HAS_EXPIRED',
+		});
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/fail', method: 'GET' })
+			.replyWithError(error);
+
+		const rejection = await fetch(`${API_BASE}/${API_PREFIX}/fail`).catch((e: unknown) => e);
+
+		expect(rejection).toBe(error);
+		expect(Object.keys(error)).toEqual(['code']);
+	});
+
+	it('should expose other errors as the cause of a TypeError', async () => {
+		const cause = new Error('certificate has expired');
+		const error = new Error('TLS handshake failed', { cause });
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/fail', method: 'GET' })
+			.replyWithError(error);
+
+		const rejection = await fetch(`${API_BASE}/${API_PREFIX}/fail`).catch((e: unknown) => e);
+
+		expect(rejection).toBeInstanceOf(TypeError);
+		expect((rejection as TypeError).message).toBe('fetch failed');
+		expect(rejection).not.toHaveProperty('code', expect.anything());
+		expect(rejection).not.toHaveProperty('errno', expect.anything());
+		expect((rejection as TypeError).cause).toBe(error);
+		expect(((rejection as TypeError).cause as Error).cause).toBe(cause);
+	});
+
+	it('should record the call before rejecting', async () => {
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/fail', method: 'GET' })
+			.replyWithError(new Error('boom'));
+
+		await fetch(`${API_BASE}/${API_PREFIX}/fail`).catch(() => null);
+
+		expect(fetchMock.calls.lastCall()?.path).toBe('/api/fail');
+	});
+});
+
+describe('get(origin) with RegExp', () => {
+	const fetchMock = createFetchMock();
+
+	beforeAll(async () => {
+		await fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+		fetchMock.reset();
+	});
+	afterAll(() => fetchMock.deactivate());
+
+	it('should accept RegExp as origin', async () => {
+		fetchMock
+			.get(/localhost/)
+			.intercept({ path: '/data', method: 'GET' })
+			.reply(200, { matched: true });
+
+		const response = await fetch(`${API_BASE}/data`);
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toEqual({ matched: true });
+	});
+});
+
+describe('get(origin) with function', () => {
+	const fetchMock = createFetchMock();
+
+	beforeAll(async () => {
+		await fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+		fetchMock.reset();
+	});
+	afterAll(() => fetchMock.deactivate());
+
+	it('should accept function as origin', async () => {
+		fetchMock
+			.get((origin: string) => origin.includes('localhost'))
+			.intercept({ path: '/data', method: 'GET' })
+			.reply(200, { matched: true });
+
+		const response = await fetch(`${API_BASE}/data`);
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toEqual({ matched: true });
+	});
+});
+
+describe('path templates', () => {
+	const fetchMock = createFetchMock();
+
+	beforeAll(async () => {
+		await fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+		fetchMock.reset();
+	});
+	afterAll(() => fetchMock.deactivate());
+
+	it('should match named params and pass them to the reply callback', async () => {
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/users/:id/posts/:postId' })
+			.reply(200, (req) => req.params);
+
+		const response = await fetch(`${API_BASE}/${API_PREFIX}/users/42/posts/7`);
+
+		expect(await response.json()).toEqual({ id: '42', postId: '7' });
+	});
+
+	it('should match optional params when present or absent', async () => {
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/users/:id/posts/:postId?' })
+			.reply(200, (req) => req.params)
+			.times(2);
+
+		const list = await fetch(`${API_BASE}/${API_PREFIX}/users/42/posts`);
+		const single = await fetch(`${API_BASE}/${API_PREFIX}/users/42/posts/7`);
+
+		expect(await list.json()).toEqual({ id: '42' });
+		expect(await single.json()).toEqual({ id: '42', postId: '7' });
+	});
+
+	it('should match wildcard segments', async () => {
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/files/*' })
+			.reply(200, (req) => req.params);
+
+		const response = await fetch(`${API_BASE}/${API_PREFIX}/files/docs/readme.md`);
+
+		expect(await response.json()).toEqual({ '0': 'docs/readme.md' });
+	});
+
+	it('should not match a different number of segments', async () => {
+		fetchMock.get(`${API_BASE}/${API_PREFIX}`).intercept({ path: '/users/:id' }).reply(200, {});
+
+		await expect(fetch(`${API_BASE}/${API_PREFIX}/users/42/posts`)).rejects.toThrow();
+		await fetch(`${API_BASE}/${API_PREFIX}/users/42`);
+	});
+
+	it('should match templates for RegExp origins', async () => {
+		fetchMock
+			.get(/localhost/)
+			.intercept({ path: '/users/:id' })
+			.reply(200, (req) => req.params);
+
+		const response = await fetch(`${API_BASE}/${API_PREFIX}/users/5`);
+
+		expect(await response.json()).toEqual({ id: '5' });
+	});
+
+	it('should record params in call history', async () => {
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/users/:id', method: 'DELETE' })
+			.reply(204, null);
+
+		await fetch(`${API_BASE}/${API_PREFIX}/users/9`, { method: 'DELETE' });
+
+		expect(fetchMock.calls.lastCall()?.params).toEqual({ id: '9' });
+	});
+
+	it('should print the template in pending interceptor errors', () => {
+		fetchMock.get(`${API_BASE}/${API_PREFIX}`).intercept({ path: '/users/:id' }).reply(200, {});
+
+		expect(() => fetchMock.assertNoPendingInterceptors()).toThrow('/users/:id');
+		fetchMock.reset();
+	});
+});
+
+describe('JSON body matching', () => {
+	const fetchMock = createFetchMock();
+
+	beforeAll(async () => {
+		await fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+		fetchMock.reset();
+	});
+	afterAll(() => fetchMock.deactivate());
+
+	it('should match a deep-equal JSON body regardless of key order', async () => {
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/users', method: 'POST', body: { name: 'Alice', roles: ['admin'] } })
+			.reply(201, { id: 1 });
+
+		const response = await fetch(`${API_BASE}/${API_PREFIX}/users`, {
+			method: 'POST',
+			body: JSON.stringify({ roles: ['admin'], name: 'Alice' }),
+		});
+
+		expect(response.status).toBe(201);
+	});
+
+	it('should match a subset with partial()', async () => {
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({
+				path: '/users',
+				method: 'POST',
+				body: partial({ name: 'Alice', id: anyString() }),
+			})
+			.reply(201, {});
+
+		const response = await fetch(`${API_BASE}/${API_PREFIX}/users`, {
+			method: 'POST',
+			body: JSON.stringify({ id: 'u1', name: 'Alice', createdAt: 123 }),
+		});
+
+		expect(response.status).toBe(201);
+	});
+
+	it('should fall through to the next interceptor when the body differs', async () => {
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/users', method: 'POST', body: { name: 'Alice' } })
+			.reply(201, { who: 'alice' });
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/users', method: 'POST', body: { name: 'Bob' } })
+			.reply(201, { who: 'bob' });
+
+		const bob = await fetch(`${API_BASE}/${API_PREFIX}/users`, {
+			method: 'POST',
+			body: JSON.stringify({ name: 'Bob' }),
+		});
+		const alice = await fetch(`${API_BASE}/${API_PREFIX}/users`, {
+			method: 'POST',
+			body: JSON.stringify({ name: 'Alice' }),
+		});
+
+		expect(await bob.json()).toEqual({ who: 'bob' });
+		expect(await alice.json()).toEqual({ who: 'alice' });
+	});
+});
+
+describe('form data matching', () => {
+	const fetchMock = createFetchMock();
+
+	beforeAll(async () => {
+		await fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+		fetchMock.reset();
+	});
+	afterAll(() => fetchMock.deactivate());
+
+	it('should match multipart fields and file metadata', async () => {
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({
+				path: '/upload',
+				method: 'POST',
+				formData: {
+					title: 'Avatar',
+					file: { name: 'avatar.png', type: 'image/png', size: 4 },
+				},
+			})
+			.reply(201, { ok: true });
+
+		const form = new FormData();
+		form.append('title', 'Avatar');
+		form.append(
+			'file',
+			new File([new Uint8Array([0x89, 0x50, 0x4e, 0x47])], 'avatar.png', { type: 'image/png' }),
+		);
+		const response = await fetch(`${API_BASE}/${API_PREFIX}/upload`, {
+			method: 'POST',
+			body: form,
+		});
+
+		expect(response.status).toBe(201);
+	});
+
+	it('should match URL-encoded bodies', async () => {
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/login', method: 'POST', formData: { user: 'alice', remember: null } })
+			.reply(200, {});
+
+		const response = await fetch(`${API_BASE}/${API_PREFIX}/login`, {
+			method: 'POST',
+			body: new URLSearchParams({ user: 'alice', password: 'secret' }),
+		});
+
+		expect(response.status).toBe(200);
+	});
+
+	it('should not match when a field differs', async () => {
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/upload', method: 'POST', formData: { file: { size: 1 } } })
+			.reply(201, {});
+
+		const form = new FormData();
+		form.append('file', new Blob(['too big']), 'a.txt');
+		await fetch(`${API_BASE}/${API_PREFIX}/upload`, { method: 'POST', body: form }).catch(
+			() => null,
+		);
+
+		expect(() => fetchMock.assertNoPendingInterceptors()).toThrow(/pending interceptor/i);
+		fetchMock.reset();
+	});
+
+	it('should expose recorded multipart uploads via formData()', async () => {
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/upload', method: 'POST' })
+			.reply(201, {});
+
+		const bytes = new Uint8Array([0xff, 0xd8, 0xff, 0x00]);
+		const form = new FormData();
+		form.append('file', new Blob([bytes], { type: 'image/jpeg' }), 'photo.jpg');
+		await fetch(`${API_BASE}/${API_PREFIX}/upload`, { method: 'POST', body: form });
+
+		const file = (await fetchMock.calls.lastCall()!.formData()).get('file') as File;
+		expect(file.name).toBe('photo.jpg');
+		expect(file.type).toBe('image/jpeg');
+		expect(new Uint8Array(await file.arrayBuffer())).toEqual(bytes);
+	});
+});
+
+describe('reply sequences', () => {
+	const fetchMock = createFetchMock();
+
+	beforeAll(async () => {
+		await fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+		fetchMock.reset();
+	});
+	afterAll(() => fetchMock.deactivate());
+
+	const url = `${API_BASE}/${API_PREFIX}/flaky`;
+
+	it('should serve replySequence() steps in order', async () => {
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/flaky' })
+			.replySequence([
+				503,
+				{ statusCode: 503, data: { retry: true } },
+				{ statusCode: 200, data: { ok: true } },
+			]);
+
+		const statuses = [];
+		for (let i = 0; i < 3; i++) statuses.push((await fetch(url)).status);
+
+		expect(statuses).toEqual([503, 503, 200]);
+	});
+
+	it('should build the same sequence with thenReply()', async () => {
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/flaky' })
+			.reply(503, { error: 'unavailable' })
+			.thenReply((req) => ({ statusCode: 202, data: { method: req.method } }))
+			.thenReply(200, { ok: true });
+
+		const first = await fetch(url);
+		const second = await fetch(url);
+		const third = await fetch(url);
+
+		expect(first.status).toBe(503);
+		expect(await second.json()).toEqual({ method: 'GET' });
+		expect(await third.json()).toEqual({ ok: true });
+	});
+
+	it('should keep an explicit times() when steps are added after it', async () => {
+		const chain = fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/flaky' })
+			.reply(503);
+		chain.times(4);
+		chain.thenReply(200);
+
+		expect(chain.interceptor.times).toBe(4);
+		const statuses: number[] = [];
+		for (let i = 0; i < 4; i++) statuses.push((await fetch(url)).status);
+
+		expect(statuses).toEqual([503, 200, 200, 200]);
+		expect(chain.isDone()).toBe(true);
+	});
+
+	it('should fall through to later interceptors once exhausted by default', async () => {
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/flaky' })
+			.replySequence([503, 200]);
+		fetchMock.get(`${API_BASE}/${API_PREFIX}`).intercept({ path: '/flaky' }).reply(418, {});
+
+		await fetch(url);
+		await fetch(url);
+		const third = await fetch(url);
+
+		expect(third.status).toBe(418);
+	});
+
+	it('should repeat the last step when exhausted with "repeat"', async () => {
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/flaky' })
+			.replySequence([503, 200], { whenExhausted: 'repeat' });
+
+		await fetch(url);
+		const statuses = [(await fetch(url)).status, (await fetch(url)).status];
+
+		expect(statuses).toEqual([200, 200]);
+	});
+
+	it('should reply with a network error when exhausted with "error"', async () => {
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/flaky' })
+			.reply(200, {})
+			.whenExhausted('error');
+
+		await fetch(url);
+
+		await expect(fetch(url)).rejects.toThrow(TypeError);
+	});
+
+	it('should support network errors as steps', async () => {
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/flaky' })
+			.replyWithError(new Error('reset'))
+			.thenReply(200, { ok: true });
+
+		await expect(fetch(url)).rejects.toThrow();
+		expect((await fetch(url)).status).toBe(200);
+	});
+
+	it('should report sequence progress on pending interceptors', async () => {
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/flaky' })
+			.replySequence([503, 503, 200]);
+
+		await fetch(url);
+
+		const [pending] = fetchMock.pendingInterceptors();
+		expect(pending.timesInvoked).toBe(1);
+		expect(pending.times).toBe(3);
+		expect(pending.sequence).toEqual({ length: 3, position: 1, whenExhausted: 'fallthrough' });
+		expect(() => fetchMock.assertNoPendingInterceptors()).toThrow(/pending interceptor/i);
+
+		await fetch(url);
+		await fetch(url);
+	});
+
+	it('should reject an empty sequence', () => {
+		expect(() =>
+			fetchMock.get(`${API_BASE}/${API_PREFIX}`).intercept({ path: '/flaky' }).replySequence([]),
+		).toThrow('replySequence() requires at least one step.');
+		fetchMock.reset();
+	});
+});
+
+describe('interceptor priority', () => {
+	const fetchMock = createFetchMock();
+
+	beforeAll(async () => {
+		await fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => {
+		fetchMock.reset();
+	});
+	afterAll(() => fetchMock.deactivate());
+
+	it('should try higher priority interceptors first', async () => {
+		fetchMock
+			.get(API_BASE)
+			.intercept({ path: '/api/users' })
+			.reply(200, { source: 'default' })
+			.persist();
+		fetchMock
+			.get(API_BASE)
+			.intercept({ path: '/api/users', priority: 10 })
+			.reply(200, { source: 'override' });
+
+		const first = await fetch(`${API_BASE}/api/users`);
+		const second = await fetch(`${API_BASE}/api/users`);
+
+		expect(await first.json()).toEqual({ source: 'override' });
+		expect(await second.json()).toEqual({ source: 'default' });
+	});
+
+	it('should keep insertion order for equal priorities by default', async () => {
+		fetchMock.get(API_BASE).intercept({ path: '/api/users' }).reply(200, { n: 1 });
+		fetchMock.get(API_BASE).intercept({ path: '/api/users' }).reply(200, { n: 2 });
+
+		expect(await (await fetch(`${API_BASE}/api/users`)).json()).toEqual({ n: 1 });
+	});
+
+	it('should report priority on pending interceptors', () => {
+		fetchMock.get(API_BASE).intercept({ path: '/api/users', priority: -1 }).reply(200, {});
 
-		expect(response.headers.get('X-Will-Be-Cleared')).toBeNull();
+		expect(fetchMock.pendingInterceptors()[0].priority).toBe(-1);
 	});
 });
 
-describe('replyWithError with Error parameter', () => {
+describe('dispatchOrder: lifo', () => {
 	const fetchMock = createFetchMock();
 
 	beforeAll(async () => {
-		await fetchMock.activate();
+		await fetchMock.activate({ dispatchOrder: 'lifo' });
 		fetchMock.disableNetConnect();
 	});
 
+	beforeEach(() => {
+		fetchMock
+			.get(API_BASE)
+			.intercept({ path: '/api/users' })
+			.reply(200, { source: 'default' })
+			.persist();
+	});
+
 	afterEach(() => {
-		fetchMock.assertNoPendingInterceptors();
 		fetchMock.reset();
 	});
 	afterAll(() => fetchMock.deactivate());
 
-	it('should accept Error parameter and reject the fetch', async () => {
+	it('should let a newer interceptor override a persisted default', async () => {
+		fetchMock.get(API_BASE).intercept({ path: '/api/users' }).reply(503, { source: 'override' });
+
+		const first = await fetch(`${API_BASE}/api/users`);
+		const second = await fetch(`${API_BASE}/api/users`);
+
+		expect(first.status).toBe(503);
+		expect(await second.json()).toEqual({ source: 'default' });
+	});
+
+	it('should still prefer a higher priority over a newer interceptor', async () => {
+		fetchMock.reset();
 		fetchMock
-			.get(`${API_BASE}/${API_PREFIX}`)
-			.intercept({ path: '/fail', method: 'GET' })
-			.replyWithError(new Error('custom network failure'));
+			.get(API_BASE)
+			.intercept({ path: '/api/users', priority: 1 })
+			.reply(200, { source: 'priority' });
+		fetchMock.get(API_BASE).intercept({ path: '/api/users' }).reply(200, { source: 'newest' });
 
-		await expect(fetch(`${API_BASE}/${API_PREFIX}/fail`)).rejects.toThrow();
+		expect(await (await fetch(`${API_BASE}/api/users`)).json()).toEqual({ source: 'priority' });
 	});
 });
 
-describe('get(origin) with RegExp', () => {
+describe('interceptor handles', () => {
 	const fetchMock = createFetchMock();
 
 	beforeAll(async () => {
@@ -1186,43 +2462,103 @@ describe('get(origin) with RegExp', () => {
 	});
 	afterAll(() => fetchMock.deactivate());
 
-	it('should accept RegExp as origin', async () => {
-		fetchMock
-			.get(/localhost/)
-			.intercept({ path: '/data', method: 'GET' })
-			.reply(200, { matched: true });
+	it('should remove only that interceptor', async () => {
+		const fallback = fetchMock
+			.get(API_BASE)
+			.intercept({ path: '/api/users' })
+			.reply(200, { source: 'fallback' });
+		const persisted = fetchMock
+			.get(API_BASE)
+			.intercept({ path: '/api/users' })
+			.reply(200, { source: 'persisted' });
+		persisted.persist();
 
-		const response = await fetch(`${API_BASE}/data`);
+		await fetch(`${API_BASE}/api/users`);
+		await fetch(`${API_BASE}/api/users`);
+		persisted.remove();
+		fallback.remove();
 
-		expect(response.status).toBe(200);
-		expect(await response.json()).toEqual({ matched: true });
+		await expect(fetch(`${API_BASE}/api/users`)).rejects.toThrow();
+		expect(fetchMock.calls.length).toBe(2);
 	});
-});
 
-describe('get(origin) with function', () => {
-	const fetchMock = createFetchMock();
+	it('should fall through to earlier interceptors after remove()', async () => {
+		const first = fetchMock.get(API_BASE).intercept({ path: '/api/a' }).reply(200, { n: 1 });
+		fetchMock.get(API_BASE).intercept({ path: '/api/a' }).reply(200, { n: 2 });
 
-	beforeAll(async () => {
-		await fetchMock.activate();
-		fetchMock.disableNetConnect();
+		first.remove();
+
+		expect(await (await fetch(`${API_BASE}/api/a`)).json()).toEqual({ n: 2 });
 	});
 
-	afterEach(() => {
-		fetchMock.assertNoPendingInterceptors();
-		fetchMock.reset();
+	it('should report isDone() and timesInvoked', async () => {
+		const chain = fetchMock.get(API_BASE).intercept({ path: '/api/a' }).reply(200, {});
+		chain.times(2);
+
+		expect(chain.isDone()).toBe(false);
+		await fetch(`${API_BASE}/api/a`);
+		expect(chain.timesInvoked).toBe(1);
+		expect(chain.isDone()).toBe(false);
+		await fetch(`${API_BASE}/api/a`);
+		expect(chain.timesInvoked).toBe(2);
+		expect(chain.isDone()).toBe(true);
 	});
-	afterAll(() => fetchMock.deactivate());
 
-	it('should accept function as origin', async () => {
-		fetchMock
-			.get((origin: string) => origin.includes('localhost'))
-			.intercept({ path: '/data', method: 'GET' })
-			.reply(200, { matched: true });
+	it('should return only the calls served by the interceptor', async () => {
+		const users = fetchMock.get(API_BASE).intercept({ path: '/api/users' }).reply(200, {});
+		users.persist();
+		const posts = fetchMock.get(API_BASE).intercept({ path: '/api/posts' }).replyWithError();
 
-		const response = await fetch(`${API_BASE}/data`);
+		await fetch(`${API_BASE}/api/users?page=1`);
+		await fetch(`${API_BASE}/api/posts`).catch(() => null);
+		await fetch(`${API_BASE}/api/users?page=2`);
 
-		expect(response.status).toBe(200);
-		expect(await response.json()).toEqual({ matched: true });
+		expect(users.calls().map((log) => log.searchParams.page)).toEqual(['1', '2']);
+		expect(posts.calls().map((log) => log.path)).toEqual(['/api/posts']);
+
+		fetchMock.clearCallHistory();
+		expect(users.calls()).toEqual([]);
+	});
+
+	it('should tag each call with its interceptor and response status', async () => {
+		const users = fetchMock.get(API_BASE).intercept({ path: '/api/users' }).reply(201, {});
+		const posts = fetchMock.get(API_BASE).intercept({ path: '/api/posts' }).replyWithError();
+
+		await fetch(`${API_BASE}/api/users`);
+		await fetch(`${API_BASE}/api/posts`).catch(() => null);
+
+		const [usersCall, postsCall] = fetchMock.calls.all();
+		expect(usersCall.interceptor).toBe(users.interceptor);
+		expect(usersCall.status).toBe(201);
+		expect(postsCall.interceptor).toBe(posts.interceptor);
+		expect(postsCall.status).toBe(0);
+	});
+
+	it('should assert calls per interceptor', async () => {
+		const users = fetchMock.get(API_BASE).intercept({ path: '/api/users' }).reply(200, {});
+		users.times(2);
+		const posts = fetchMock.get(API_BASE).intercept({ path: '/api/posts' }).reply(200, {});
+
+		await fetch(`${API_BASE}/api/users`);
+		await fetch(`${API_BASE}/api/users`);
+		posts.remove();
+
+		expect(fetchMock.calls.forInterceptor(users)).toHaveLength(2);
+		fetchMock.calls.expectCalled(users, { times: 2 });
+		expect(() => fetchMock.calls.expectCalled(posts)).toThrow(
+			`Expected GET ${API_BASE}/api/posts to be called at least once, but it was called 0 times.`,
+		);
+	});
+
+	it('should accept handles from pendingInterceptors()', async () => {
+		const chain = fetchMock.get(API_BASE).intercept({ path: '/api/users' }).reply(200, {});
+		chain.persist();
+		const [pending] = fetchMock.pendingInterceptors();
+
+		await fetch(`${API_BASE}/api/users`);
+
+		expect(pending.id).toBe(chain.interceptor.id);
+		fetchMock.calls.expectCalled(pending, { times: 1 });
 	});
 });
 
@@ -1258,6 +2594,82 @@ describe('reply(callback) single parameter form', () => {
 		expect(response.status).toBe(201);
 		expect(await response.json()).toEqual({ echo: { msg: 'hello' } });
 	});
+
+	it('should pass the request context to the callback', async () => {
+		let received: ReplyRequest | undefined;
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: /^\/users\/(?<id>\d+)/, method: 'POST' })
+			.reply((req) => {
+				received = req;
+				return { statusCode: 200, data: null };
+			});
+
+		await fetch(`${API_BASE}/${API_PREFIX}/users/42?expand=posts`, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json', 'X-Trace': 'abc' },
+			body: JSON.stringify({ name: 'Alice' }),
+		});
+
+		expect(received?.method).toBe('POST');
+		expect(received?.url.pathname).toBe(`/${API_PREFIX}/users/42`);
+		expect(received?.searchParams.get('expand')).toBe('posts');
+		expect(received?.headers.get('x-trace')).toBe('abc');
+		expect(received?.json).toEqual({ name: 'Alice' });
+		expect(received?.params).toEqual({ id: '42' });
+		expect(await received?.request.json()).toEqual({ name: 'Alice' });
+	});
+
+	it('should leave json undefined for non-JSON bodies', async () => {
+		let json: unknown = 'unset';
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/echo', method: 'POST' })
+			.reply((req) => {
+				json = req.json;
+				return { statusCode: 200, data: req.body };
+			});
+
+		await fetch(`${API_BASE}/${API_PREFIX}/echo`, { method: 'POST', body: 'plain text' });
+
+		expect(json).toBeUndefined();
+	});
+
+	it('should pass a returned Response through untouched', async () => {
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/redirect' })
+			.reply(
+				() =>
+					new Response('moved', {
+						status: 302,
+						headers: { Location: '/elsewhere', 'Content-Type': 'text/plain' },
+					}),
+			);
+
+		const response = await fetch(`${API_BASE}/${API_PREFIX}/redirect`, { redirect: 'manual' });
+
+		expect(response.status).toBe(302);
+		expect(response.headers.get('location')).toBe('/elsewhere');
+		expect(await response.text()).toBe('moved');
+	});
+
+	it('should pass a Response returned from a body callback through untouched', async () => {
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/custom' })
+			.reply(200, () => new Response('teapot', { status: 418 }), {
+				headers: { 'X-Ignored': 'yes' },
+			})
+			.replyContentLength();
+
+		const response = await fetch(`${API_BASE}/${API_PREFIX}/custom`);
+
+		expect(response.status).toBe(418);
+		expect(response.headers.get('x-ignored')).toBeNull();
+		expect(response.headers.get('content-length')).toBeNull();
+		expect(await response.text()).toBe('teapot');
+	});
 });
 
 describe('clearAllCallHistory', () => {
@@ -1374,6 +2786,54 @@ describe('replyContentLength', () => {
 		expect(contentLength).not.toBeNull();
 		expect(Number(contentLength)).toBe(JSON.stringify(body).length);
 	});
+
+	it('should count UTF-8 bytes for non-ASCII JSON bodies', async () => {
+		const body = { greeting: 'こんにちは 👋' };
+
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/i18n', method: 'GET' })
+			.reply(200, body)
+			.replyContentLength();
+
+		const response = await fetch(`${API_BASE}/${API_PREFIX}/i18n`);
+		const bytes = await response.arrayBuffer();
+
+		expect(Number(response.headers.get('Content-Length'))).toBe(bytes.byteLength);
+		expect(bytes.byteLength).toBe(new TextEncoder().encode(JSON.stringify(body)).byteLength);
+	});
+
+	it('should count bytes of text and binary bodies as sent', async () => {
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/text', method: 'GET' })
+			.replyText(200, '日本語')
+			.replyContentLength();
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/binary', method: 'GET' })
+			.replyBinary(200, new Uint8Array(1024))
+			.replyContentLength();
+
+		const text = await fetch(`${API_BASE}/${API_PREFIX}/text`);
+		const binary = await fetch(`${API_BASE}/${API_PREFIX}/binary`);
+
+		expect(text.headers.get('Content-Length')).toBe('9');
+		expect(await text.text()).toBe('日本語');
+		expect(binary.headers.get('Content-Length')).toBe('1024');
+	});
+
+	it('should not add Content-Length for empty bodies', async () => {
+		fetchMock
+			.get(`${API_BASE}/${API_PREFIX}`)
+			.intercept({ path: '/empty', method: 'GET' })
+			.reply(204, null)
+			.replyContentLength();
+
+		const response = await fetch(`${API_BASE}/${API_PREFIX}/empty`);
+
+		expect(response.headers.get('Content-Length')).toBeNull();
+	});
 });
 
 describe('singleton export', () => {
@@ -1558,3 +3018,507 @@ describe('constructor auto-detection', () => {
 		});
 	});
 });
+
+describe('record and replay', () => {
+	const fm = createFetchMock();
+	// Local stand-in for a real API, so recording runs offline
+	const server: Server = createServer((req, res) => {
+		let body = '';
+		req.on('data', (chunk) => {
+			body += chunk;
+		});
+		req.on('end', () => {
+			if (req.url === '/gzip') {
+				res.writeHead(200, { 'content-type': 'application/json', 'content-encoding': 'gzip' });
+				res.end(gzipSync('{"ok":true}'));
+				return;
+			}
+			if (req.url === '/binary') {
+				res.writeHead(200, { 'content-type': 'application/octet-stream' });
+				res.end(Buffer.from([0xff, 0x00, 0x01]));
+				return;
+			}
+			res.writeHead(201, { 'content-type': 'application/json', 'x-server': 'local' });
+			res.end(JSON.stringify({ method: req.method, url: req.url, body }));
+		});
+	});
+	let origin = '';
+
+	beforeAll(async () => {
+		await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+		origin = `http://127.0.0.1:${(server.address() as { port: number }).port}`;
+		await fm.activate();
+	});
+
+	afterEach(() => {
+		fm.assertNoPendingInterceptors();
+		fm.reset();
+		fm.disableNetConnect();
+	});
+
+	afterAll(async () => {
+		fm.deactivate();
+		server.closeAllConnections();
+		await new Promise((resolve) => server.close(resolve));
+	});
+
+	it('should capture passthrough requests and replay them offline', async () => {
+		fm.enableNetConnect(/^127\.0\.0\.1:/);
+		fm.startRecording();
+		const live = await fetch(`${origin}/users?page=2`, {
+			method: 'POST',
+			headers: { authorization: 'Bearer secret', 'x-trace': '1' },
+			body: '{"name":"Alice"}',
+		});
+		await fetch(`${origin}/binary`);
+		const fixture = fm.stopRecording();
+
+		const expected = { method: 'POST', url: '/users?page=2', body: '{"name":"Alice"}' };
+		expect(await live.json()).toEqual(expected);
+		expect(fixture.entries).toHaveLength(2);
+		expect(fixture.entries[0].request).toEqual({
+			method: 'POST',
+			url: `${origin}/users?page=2`,
+			headers: expect.objectContaining({ 'x-trace': '1' }),
+			body: '{"name":"Alice"}',
+		});
+		expect(fixture.entries[0].request.headers).not.toHaveProperty('authorization');
+		expect(fixture.entries[0].response).toMatchObject({
+			status: 201,
+			headers: { 'content-type': 'application/json', 'x-server': 'local' },
+			body: JSON.stringify(expected),
+		});
+		expect(fixture.entries[0].response.headers).not.toHaveProperty('content-length');
+		expect(fixture.entries[1].response).toMatchObject({ body: '/wAB', encoding: 'base64' });
+
+		fm.disableNetConnect();
+		fm.replay(fixture);
+		const replayed = await fetch(`${origin}/users?page=2`, {
+			method: 'POST',
+			body: '{"name":"Alice"}',
+		});
+		const binary = await fetch(`${origin}/binary`);
+
+		expect(replayed.status).toBe(201);
+		expect(replayed.headers.get('x-server')).toBe('local');
+		expect(await replayed.json()).toEqual(expected);
+		expect([...new Uint8Array(await binary.arrayBuffer())]).toEqual([0xff, 0x00, 0x01]);
+	});
+
+	it('should hand compressed responses to the caller decoded once', async () => {
+		fm.enableNetConnect(/^127\.0\.0\.1:/);
+		fm.startRecording();
+		const live = await fetch(`${origin}/gzip`);
+		const fixture = fm.stopRecording();
+
+		expect(await live.json()).toEqual({ ok: true });
+		expect(live.headers.get('content-encoding')).toBeNull();
+		expect(fixture.entries[0].response).toMatchObject({ body: '{"ok":true}' });
+	});
+
+	it('should only replay requests with the recorded query and body', async () => {
+		fm.enableNetConnect(/^127\.0\.0\.1:/);
+		fm.startRecording();
+		await fetch(`${origin}/users?page=2`, { method: 'POST', body: 'a' });
+		const fixture = fm.stopRecording();
+		fm.disableNetConnect();
+		const [chain] = fm.replay(fixture);
+
+		await expect(fetch(`${origin}/users?page=3`, { method: 'POST', body: 'a' })).rejects.toThrow();
+		await expect(fetch(`${origin}/users?page=2`, { method: 'POST', body: 'b' })).rejects.toThrow();
+		await fetch(`${origin}/users?page=2`, { method: 'POST', body: 'a' });
+		expect(chain.isDone()).toBe(true);
+	});
+
+	it('should not record requests net connect does not allow', async () => {
+		fm.startRecording();
+
+		await expect(fetch(`${origin}/users`)).rejects.toThrow();
+		expect(fm.stopRecording().entries).toEqual([]);
+	});
+
+	it('should require an adapter that can bypass interception', () => {
+		const adapter: MswAdapter = {
+			use: () => {},
+			resetHandlers: () => {},
+			activate: () => {},
+			deactivate: () => {},
+		};
+
+		expect(() => new FetchMock(adapter).startRecording()).toThrow(
+			'Recording requires an adapter that can bypass interception',
+		);
+	});
+});
+
+describe('loadHar', () => {
+	const fm = createFetchMock();
+	const har: Har = {
+		log: {
+			entries: [
+				{
+					time: 40.4,
+					request: {
+						method: 'POST',
+						url: `${API_BASE}/api/users?team=a`,
+						postData: { mimeType: 'application/json', text: '{"name":"Alice"}' },
+					},
+					response: {
+						status: 201,
+						headers: [
+							{ name: 'Content-Type', value: 'application/json' },
+							{ name: 'Content-Length', value: '99' },
+						],
+						content: { mimeType: 'application/json', text: '{"id":1}' },
+					},
+				},
+				{
+					request: { method: 'GET', url: `${API_BASE}/avatar.png` },
+					response: {
+						status: 200,
+						headers: [{ name: 'Content-Type', value: 'image/png' }],
+						content: { mimeType: 'image/png', text: '/wAB', encoding: 'base64' },
+					},
+				},
+				{
+					request: { method: 'GET', url: `${API_BASE}/blocked` },
+					response: { status: 0 },
+				},
+			],
+		},
+	};
+
+	beforeAll(async () => {
+		await fm.activate();
+		fm.disableNetConnect();
+	});
+
+	afterEach(() => {
+		fm.assertNoPendingInterceptors();
+		fm.reset();
+	});
+
+	afterAll(() => fm.deactivate());
+
+	it('should reply with each entry through regular interceptors', async () => {
+		const [users] = fm.loadHar(har);
+
+		const started = Date.now();
+		const created = await fetch(`${API_BASE}/api/users?team=a`, {
+			method: 'POST',
+			body: '{"name":"Alice"}',
+		});
+		const elapsed = Date.now() - started;
+		const avatar = await fetch(`${API_BASE}/avatar.png`);
+
+		expect(created.status).toBe(201);
+		expect(created.headers.get('content-length')).toBeNull();
+		expect(await created.json()).toEqual({ id: 1 });
+		expect(elapsed).toBeGreaterThanOrEqual(35);
+		expect(avatar.headers.get('content-type')).toBe('image/png');
+		expect([...new Uint8Array(await avatar.arrayBuffer())]).toEqual([0xff, 0x00, 0x01]);
+		await expect(fetch(`${API_BASE}/blocked`)).rejects.toThrow();
+		expect(fm.calls.forInterceptor(users)).toHaveLength(1);
+		expect(fm.calls.lastCall()?.error).toBe(true);
+	});
+
+	it('should match only the requested fields', async () => {
+		fm.loadHar(har, { matchBy: ['method'], delay: false, persist: true });
+
+		const response = await fetch(`${API_BASE}/other`, { method: 'POST', body: 'anything' });
+
+		expect(await response.json()).toEqual({ id: 1 });
+		expect(fm.pendingInterceptors().map((p) => p.path)).toEqual(['/.*/', '/.*/']);
+		fm.reset();
+	});
+
+	it('should leave unrequested entries pending', () => {
+		fm.loadHar(har, { delay: false });
+
+		expect(() => fm.assertNoPendingInterceptors()).toThrow(
+			`POST ${API_BASE}/api/users?team=a\n      invoked 0 of 1 times\n      body: "{\\"name\\":\\"Alice\\"}"`,
+		);
+		fm.reset();
+	});
+});
+
+describe('fromOpenApi', () => {
+	const fm = createFetchMock();
+	const spec: OpenApiDocument = {
+		openapi: '3.0.3',
+		servers: [
+			{ url: 'https://api.example.com/{version}', variables: { version: { default: 'v1' } } },
+		],
+		paths: {
+			'/users': {
+				get: {
+					operationId: 'listUsers',
+					responses: {
+						'200': {
+							description: 'Users',
+							content: {
+								'application/json': {
+									schema: { type: 'array', items: { $ref: '#/components/schemas/User' } },
+								},
+							},
+						},
+					},
+				},
+				post: {
+					responses: {
+						'201': {
+							description: 'Created',
+							content: {
+								'application/json': {
+									examples: { alice: { $ref: '#/components/examples/Alice' } },
+								},
+							},
+						},
+						'400': { description: 'Invalid' },
+					},
+				},
+			},
+			'/users/{id}': {
+				get: {
+					operationId: 'getUser',
+					responses: {
+						'200': {
+							description: 'User',
+							content: { 'application/json': { example: { id: 7, name: 'Bob' } } },
+						},
+						'404': { description: 'Not found' },
+					},
+				},
+				delete: { operationId: 'deleteUser', responses: { '204': { description: 'Deleted' } } },
+			},
+		},
+		components: {
+			schemas: {
+				User: {
+					type: 'object',
+					properties: { id: { type: 'integer' }, email: { type: 'string', format: 'email' } },
+				},
+			},
+			examples: { Alice: { value: { id: 1, name: 'Alice' } } },
+		},
+	};
+
+	beforeAll(async () => {
+		await fm.activate();
+		fm.disableNetConnect();
+	});
+
+	afterEach(() => fm.reset());
+
+	afterAll(() => fm.deactivate());
+
+	it('should reply to every operation with its documented status and example', async () => {
+		const { interceptors } = fm.fromOpenApi(spec, { origin: API_BASE });
+
+		const users = await fetch(`${API_BASE}/v1/users?page=2`);
+		const created = await fetch(`${API_BASE}/v1/users`, { method: 'POST', body: '{}' });
+		const user = await fetch(`${API_BASE}/v1/users/7`);
+		const deleted = await fetch(`${API_BASE}/v1/users/7`, { method: 'DELETE' });
+
+		expect(users.headers.get('content-type')).toBe('application/json');
+		expect(await users.json()).toEqual([{ id: 0, email: 'user@example.com' }]);
+		expect(created.status).toBe(201);
+		expect(await created.json()).toEqual({ id: 1, name: 'Alice' });
+		expect(await user.json()).toEqual({ id: 7, name: 'Bob' });
+		expect(deleted.status).toBe(204);
+		expect(Object.keys(interceptors)).toEqual([
+			'listUsers',
+			'POST /users',
+			'getUser',
+			'deleteUser',
+		]);
+		expect(interceptors.getUser.interceptor.path).toBe('/users/:id');
+		expect(interceptors.getUser.timesInvoked).toBe(1);
+	});
+
+	it('should default to the server URL and let operations be overridden', async () => {
+		const api = fm.fromOpenApi(spec);
+		api.operation('getUser').reply(404, { message: 'Not found' });
+
+		const missing = await fetch('https://api.example.com/v1/users/9');
+		const found = await fetch('https://api.example.com/v1/users/9');
+
+		expect(missing.status).toBe(404);
+		expect(await missing.json()).toEqual({ message: 'Not found' });
+		expect(found.status).toBe(200);
+		expect(() => api.operation('updateUser')).toThrow(
+			'Unknown OpenAPI operation "updateUser". Known operations: listUsers, POST /users, getUser, deleteUser.',
+		);
+	});
+
+	it('should not report unused operations as pending', async () => {
+		const api = fm.fromOpenApi(spec, { origin: API_BASE });
+		api.operation('deleteUser').reply(204);
+
+		await fetch(`${API_BASE}/v1/users`);
+
+		expect(api.interceptors.getUser.isDone()).toBe(true);
+		expect(fm.pendingInterceptors().map((p) => p.method)).toEqual(['DELETE']);
+	});
+
+	it('should reject documents that are not OpenAPI 3.x', () => {
+		expect(() => fm.fromOpenApi({ swagger: '2.0' } as unknown as OpenApiDocument)).toThrow(
+			'Unsupported OpenAPI version "2.0": only OpenAPI 3.x documents are supported.',
+		);
+	});
+});
+
+describe('contract validation', () => {
+	const fm = createFetchMock();
+	const dir = mkdtempSync(join(tmpdir(), 'msw-fetch-mock-'));
+	const specPath = join(dir, 'openapi.json');
+	writeFileSync(
+		specPath,
+		JSON.stringify({
+			openapi: '3.1.0',
+			servers: [{ url: '/api' }],
+			paths: {
+				'/users/{id}': {
+					get: {
+						operationId: 'getUser',
+						parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+						responses: {
+							'200': {
+								description: 'User',
+								content: {
+									'application/json': {
+										schema: {
+											type: 'object',
+											required: ['id', 'name'],
+											properties: { id: { type: 'integer' }, name: { type: 'string' } },
+										},
+									},
+								},
+							},
+						},
+					},
+				},
+			},
+		}),
+	);
+
+	beforeAll(async () => {
+		await fm.activate();
+		fm.disableNetConnect();
+		fm.enableContractValidation(await loadOpenApi(specPath), { origin: API_BASE });
+	});
+
+	afterEach(() => fm.reset());
+
+	afterAll(() => {
+		fm.deactivate();
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it('should serve replies that follow the contract', async () => {
+		fm.get(API_BASE).intercept({ path: '/api/users/1' }).reply(200, { id: 1, name: 'Alice' });
+
+		const response = await fetch(`${API_BASE}/api/users/1`);
+
+		expect(await response.json()).toEqual({ id: 1, name: 'Alice' });
+	});
+
+	it('should fail requests that violate the contract', async () => {
+		fm.get(API_BASE).intercept({ path: '/api/users/:id' }).reply(200, { id: 1, name: 'Alice' });
+
+		const error = await fetch(`${API_BASE}/api/users/abc`).catch((e: unknown) => e);
+
+		expect(String((error as TypeError).cause)).toContain(
+			'Request violates the OpenAPI contract of GET /users/{id} (getUser):\n\n' +
+				`  \u2022 GET ${API_BASE}/api/users/abc\n` +
+				'      path parameter "id": expected integer, received string',
+		);
+		expect(fm.calls.lastCall()?.error).toBe(true);
+	});
+
+	it('should collect violations for assertNoContractViolations()', async () => {
+		fm.get(API_BASE).intercept({ path: '/api/users/:id' }).reply(200, { id: 1, name: 'Alice' });
+		expect(() => fm.assertNoContractViolations()).not.toThrow();
+
+		// Application code that swallows network errors
+		await fetch(`${API_BASE}/api/users/abc`).catch(() => {});
+
+		expect(() => fm.assertNoContractViolations()).toThrow(
+			'Request violates the OpenAPI contract of GET /users/{id} (getUser):\n\n' +
+				`  \u2022 GET ${API_BASE}/api/users/abc\n` +
+				'      path parameter "id": expected integer, received string',
+		);
+		fm.reset();
+		expect(() => fm.assertNoContractViolations()).not.toThrow();
+	});
+
+	it('should record violating requests as unmatched and leave interceptors pending', async () => {
+		const chain = fm
+			.get(API_BASE)
+			.intercept({ path: '/api/users/:id' })
+			.reply(200, { id: 1, name: 'Alice' });
+
+		await fetch(`${API_BASE}/api/users/abc`).catch(() => {});
+
+		expect(fm.calls.lastCall()).toMatchObject({ matched: false, interceptor: undefined });
+		expect(chain.calls()).toHaveLength(0);
+		expect(fm.pendingInterceptors()).toMatchObject([{ path: '/api/users/:id', timesInvoked: 0 }]);
+		expect(() => fm.assertNoPendingInterceptors()).toThrow(
+			`Unmatched requests:\n  GET ${API_BASE}/api/users/abc`,
+		);
+		const response = await fetch(`${API_BASE}/api/users/1`);
+		expect(await response.json()).toEqual({ id: 1, name: 'Alice' });
+	});
+
+	it('should fail replies that violate the documented response', async () => {
+		fm.get(API_BASE).intercept({ path: '/api/users/1' }).reply(200, { id: '1' });
+		fm.get(API_BASE).intercept({ path: '/api/users/2' }).reply(500);
+
+		const invalid = await fetch(`${API_BASE}/api/users/1`).catch((e: unknown) => e);
+		const undocumented = await fetch(`${API_BASE}/api/users/2`).catch((e: unknown) => e);
+
+		expect(String((invalid as TypeError).cause)).toContain(
+			'      response body $.name: required property is missing\n' +
+				'      response body $.id: expected integer, received string',
+		);
+		expect(String((undocumented as TypeError).cause)).toContain(
+			'response status 500 is not documented, expected 200',
+		);
+	});
+
+	it('should not wait for streamed replies to end before serving them', async () => {
+		let release!: () => void;
+		const ended = new Promise<void>((resolve) => {
+			release = resolve;
+		});
+		fm.get(API_BASE)
+			.intercept({ path: '/api/users/1' })
+			.replyStream(
+				200,
+				async function* () {
+					yield '{"id":1,';
+					await ended;
+					yield '"name":"Alice"}';
+				},
+				{ headers: { 'Content-Type': 'application/json' } },
+			);
+
+		const response = await fetch(`${API_BASE}/api/users/1`);
+		release();
+
+		expect(await response.json()).toEqual({ id: 1, name: 'Alice' });
+	});
+
+	it('should not validate requests outside the contract or after it is disabled', async () => {
+		fm.get('http://other.test').intercept({ path: '/users/abc' }).reply(500);
+		fm.get(API_BASE).intercept({ path: '/api/users/abc' }).reply(500);
+
+		const other = await fetch('http://other.test/users/abc');
+		fm.disableContractValidation();
+		const disabled = await fetch(`${API_BASE}/api/users/abc`);
+		fm.enableContractValidation(await loadOpenApi(specPath), { origin: API_BASE });
+
+		expect(other.status).toBe(500);
+		expect(disabled.status).toBe(500);
+	});
+});
@@ -1,30 +1,85 @@
+import { copyToArrayBuffer } from './body';
 import {
+	type ContractOperation,
+	checkRequest,
+	formatContractViolations,
+	type OpenApiContract,
+	validateResponse,
+} from './contract';
+import {
+	captureEntry,
+	entryInterceptOptions,
+	entryReplyBody,
+	withoutTransportHeaders,
+} from './fixtures';
+import { fromHarEntry } from './har';
+import {
+	createReplyRequest,
+	describeInterceptOptions,
+	diffBody,
+	diffFormData,
+	diffHeaders,
+	diffQuery,
+	extractPathParams,
+	isExhausted,
+	isPathTemplate,
 	isPending,
-	matchBody,
 	matchesValue,
-	matchHeaders,
+	matchMethod,
 	matchPath,
-	matchQuery,
+	matchPathTemplate,
+	parseFormData,
 	recordCall,
+	recordResponse,
+	relativeToOrigin,
+	splitPathQuery,
 } from './matchers';
-import { MockCallHistory } from './mock-call-history';
+import { MockCallHistory, type MockCallHistoryLog } from './mock-call-history';
+import { assertOpenApi3, openApiBaseUrl, openApiRoutes } from './openapi';
+import { formatPendingReport } from './pending-report';
+import {
+	createChunkStream,
+	formatSseEvent,
+	tagBufferedResponse,
+	tagStreamResponse,
+} from './stream';
 import { isMswAdapter, isSetupServerLike, isSetupWorkerLike } from './type-guards';
 import {
 	type ActivateOptions,
+	type BinaryBody,
+	type ContractValidationOptions,
+	type Fixture,
+	type FixtureEntry,
+	type FromOpenApiOptions,
 	type HandlerFactory,
+	type Har,
+	type HarMatchField,
 	type InterceptOptions,
+	type LoadHarOptions,
 	type MockInterceptor,
 	type MockPool,
 	type MockReplyChain,
 	type MswAdapter,
 	type NetConnectMatcher,
+	type OpenApiDocument,
+	type OpenApiMock,
 	type PendingInterceptor,
+	type PendingReportFormat,
 	type ReplyCallback,
 	type ReplyOptions,
+	type ReplyRequest,
+	type ReplySequenceOptions,
+	type ReplySequenceStep,
 	type ResolvedActivateOptions,
+	type SequenceExhaustion,
 	type SetupServerLike,
 	type SetupWorkerLike,
 	type SingleReplyCallback,
+	type SseEvent,
+	type StreamChunk,
+	type StreamReplyOptions,
+	type StreamSource,
+	type UnmatchedRequest,
 } from './types';
 
 export type {
@@ -100,11 +155,55 @@ function resolveAdapter(input?: SetupServerLike | SetupWorkerLike | MswAdapter):
 	throw new Error('Invalid argument: expected a setupServer, setupWorker, or MswAdapter instance.');
 }
 
+type Responder = (req: ReplyRequest) => Promise<Response>;
+
+/** A pending interceptor whose origin or path matched, with the criteria that failed. */
+interface NearMiss {
+	pending: PendingInterceptor;
+	failures: string[];
+}
+
+/**
+ * Dispatch function registered per interceptor. Interceptors that match the
+ * request's origin or path but fail another criterion append a `NearMiss`.
+ */
+type InterceptorHandler = (
+	request: Request,
+	nearMisses: NearMiss[],
+) => Promise<Response | undefined>;
+
+const MAX_NEAR_MISSES = 3;
+
+/** Priority of `fromOpenApi()` interceptors, below anything a test registers. */
+const OPENAPI_PRIORITY = Number.MIN_SAFE_INTEGER;
+
+/** Stack of the code that called the public method calling this function. */
+function callerStack(): string {
+	// Drop the `Error` line, this frame and the public method's frame
+	return new Error().stack?.split('\n').slice(3).join('\n') ?? '';
+}
+
+/** Lists the near misses with the fewest failed criteria first. */
+function formatNearMisses(nearMisses: NearMiss[]): string {
+	if (nearMisses.length === 0) return '';
+	const closest = [...nearMisses]
+		.sort((a, b) => a.failures.length - b.failures.length)
+		.slice(0, MAX_NEAR_MISSES)
+		.map(
+			({ pending, failures }) =>
+				`  \u2022 ${pending.method} ${pending.origin}${pending.path}\n` +
+				failures.map((line) => `      ${line}`).join('\n'),
+		);
+	return `Closest pending interceptors:\n\n${closest.join('\n')}\n\n`;
+}
+
 export class FetchMock {
 	/** @internal */
 	static _defaultAdapterFactory?: () => MswAdapter;
 	/** @internal */
 	static _handlerFactory?: HandlerFactory;
+	/** @internal Name of the running test, set by `setupFetchMock()` hooks. */
+	_currentTest?: string;
 
 	private get handlerFactory(): HandlerFactory {
 		if (!FetchMock._handlerFactory) {
@@ -116,32 +215,63 @@ export class FetchMock {
 		return FetchMock._handlerFactory;
 	}
 
-	private buildResponse(
+	private async buildResponse(
 		status: number,
 		responseBody: unknown,
 		replyOptions?: ReplyOptions,
 		defaultHeaders?: Record<string, string>,
 		addContentLength?: boolean,
-	): Response {
+	): Promise<Response> {
 		const mergedHeaders: Record<string, string> = { ...defaultHeaders };
 		if (replyOptions?.headers) {
 			Object.assign(mergedHeaders, replyOptions.headers);
 		}
-		if (addContentLength && responseBody !== null && responseBody !== undefined) {
-			mergedHeaders['Content-Length'] = String(JSON.stringify(responseBody).length);
+		const headers = Object.keys(mergedHeaders).length > 0 ? new Headers(mergedHeaders) : undefined;
+		const response = this.handlerFactory.buildResponse(status, responseBody, headers);
+
+		// Measure the bytes the handler factory actually encoded (UTF-8 text,
+		// JSON, binary, multipart...). Streams have no length known up front.
+		if (addContentLength && response.body !== null && !(responseBody instanceof ReadableStream)) {
+			const { byteLength } = await response.clone().arrayBuffer();
+			response.headers.set('Content-Length', String(byteLength));
+		}
+		return responseBody instanceof ReadableStream ? response : tagBufferedResponse(response);
+	}
+
+	private buildStreamResponse(
+		status: number,
+		stream: ReadableStream<Uint8Array>,
+		replyOptions?: ReplyOptions,
+		defaultHeaders?: Record<string, string>,
+	): Response {
+		const mergedHeaders: Record<string, string> = { ...defaultHeaders };
+		if (replyOptions?.headers) {
+			Object.assign(mergedHeaders, replyOptions.headers);
 		}
 		const headers = Object.keys(mergedHeaders).length > 0 ? new Headers(mergedHeaders) : undefined;
-		return this.handlerFactory.buildResponse(status, responseBody, headers);
+		const response =
+			this.handlerFactory.buildStreamResponse?.(status, stream, headers) ??
+			new Response(stream, { status, headers });
+		return tagStreamResponse(response);
 	}
 
 	private readonly _calls = new MockCallHistory();
 	private adapter: MswAdapter;
 	private interceptors: PendingInterceptor[] = [];
 	private netConnectAllowed: NetConnectMatcher = false;
-	private handlerFns: Map<PendingInterceptor, (request: Request) => Promise<Response | undefined>> =
-		new Map();
+	private handlerFns: Map<PendingInterceptor, InterceptorHandler> = new Map();
 	private _defaultReplyHeaders: Record<string, string> = {};
 	private _callHistoryEnabled = true;
+	private _dispatchOrder: 'fifo' | 'lifo' = 'fifo';
+	private _recordUnmatched = false;
+	private unmatchedRequests: UnmatchedRequest[] = [];
+	/** Reports of the requests and replies that violated the contract since the last `reset()`. */
+	private contractViolations: string[] = [];
+	private recording: FixtureEntry[] | null = null;
+	private contract: OpenApiContract | null = null;
+	private nextInterceptorId = 1;
+	/** Call site of the public method registering interceptors through `intercept()`. */
+	private registrationStack?: string;
 	private catchAllInstalled = false;
 	private _onUnhandledRequest?: (
 		request: Request,
@@ -160,6 +290,8 @@ export class FetchMock {
 		const mode = options?.onUnhandledRequest ?? 'error';
 		const timeout = options?.timeout ?? 30000; // Default 30 seconds
 		const forceConnectionClose = options?.forceConnectionClose ?? false;
+		this._dispatchOrder = options?.dispatchOrder ?? 'fifo';
+		this._recordUnmatched = options?.recordUnmatched ?? false;
 
 		this._onUnhandledRequest = (request: Request, print: { warning(): void; error(): void }) => {
 			if (this.isNetConnectAllowed(request)) return;
@@ -204,9 +336,20 @@ export class FetchMock {
 		return this.netConnectAllowed(host);
 	}
 
+	/**
+	 * Returns the registered handlers in dispatch order: highest `priority`
+	 * first, then insertion order (FIFO) or newest first (LIFO).
+	 */
+	private dispatchQueue(): Array<[PendingInterceptor, InterceptorHandler]> {
+		const queue = [...this.handlerFns];
+		if (this._dispatchOrder === 'lifo') queue.reverse();
+		// Array.prototype.sort is stable, so equal priorities keep their order
+		return queue.sort(([a], [b]) => (b.priority ?? 0) - (a.priority ?? 0));
+	}
+
 	/**
 	 * Installs a single catch-all MSW handler that dispatches requests to
-	 * registered interceptors in FIFO order. All matching logic runs in the
+	 * registered interceptors in priority and dispatch order. All matching logic runs in the
 	 * main thread, eliminating race conditions with Service Worker messaging.
 	 *
 	 * The catch-all is installed once and stays active until reset/deactivate.
@@ -217,26 +360,29 @@ export class FetchMock {
 		if (this.catchAllInstalled) return;
 
 		const catchAllHandler = this.handlerFactory.createCatchAllHandler(async (request: Request) => {
-			// Iterate handlers in FIFO order (insertion order of Map)
-			for (const [pending, handlerFn] of this.handlerFns) {
-				if (pending.consumed && !pending.persist) continue;
+			const nearMisses: NearMiss[] = [];
+			for (const [pending, handlerFn] of this.dispatchQueue()) {
+				if (isExhausted(pending)) continue;
 
 				// Clone request so each handler can read the body independently
-				const response = await handlerFn(request.clone());
+				const response = await handlerFn(request.clone(), nearMisses);
 				if (response !== undefined) return response;
 			}
 
+			this.unmatchedRequests.push({ method: request.method, url: request.url });
+
 			// No handler matched — invoke the onUnhandledRequest callback
 			// (handles net connect checks, error/warn modes, and custom callbacks).
 			// Since the catch-all intercepts all requests, MSW's own
 			// onUnhandledRequest won't fire, so we replicate it here.
+			let shouldError = false;
 			if (this._onUnhandledRequest) {
-				let shouldError = false;
 				this._onUnhandledRequest(request, {
 					warning: () => {
 						console.warn(
 							`[msw-fetch-mock] Warning: intercepted a request without a matching request handler:\n\n` +
 								`  \u2022 ${request.method} ${request.url}\n\n` +
+								formatNearMisses(nearMisses) +
 								`If you still wish to intercept this unhandled request, please create a request handler for it.`,
 						);
 					},
@@ -244,9 +390,25 @@ export class FetchMock {
 						shouldError = true;
 					},
 				});
-				if (shouldError) {
-					return this.handlerFactory.buildErrorResponse();
-				}
+			}
+
+			if (this._recordUnmatched && this._callHistoryEnabled) {
+				await this.recordUnmatchedCall(request, !shouldError);
+			}
+			if (this.recording && this.adapter.bypass && this.isNetConnectAllowed(request)) {
+				// Fetch it ourselves instead of passing through, so the response can be captured
+				const response = await this.adapter.bypass(request.clone());
+				this.recording.push(await captureEntry(request.clone(), response.clone()));
+				return withoutTransportHeaders(response);
+			}
+			if (shouldError) {
+				const message =
+					`[msw-fetch-mock] Cannot bypass a request when using the "error" strategy for the "onUnhandledRequest" option.\n\n` +
+					`  \u2022 ${request.method} ${request.url}\n\n` +
+					formatNearMisses(nearMisses);
+				// The rejected fetch() only keeps this as its `cause`, which browsers drop
+				if (nearMisses.length > 0) console.error(message);
+				return this.handlerFactory.buildErrorResponse(new TypeError(message));
 			}
 
 			// Allow passthrough for allowed hosts
@@ -258,6 +420,12 @@ export class FetchMock {
 		this.catchAllInstalled = true;
 	}
 
+	private async recordUnmatchedCall(request: Request, passthrough: boolean): Promise<void> {
+		const rawBody = await request.clone().arrayBuffer();
+		const bodyText = rawBody.byteLength > 0 ? new TextDecoder().decode(rawBody) : null;
+		recordCall(this._calls, request, bodyText, {}, rawBody, { matched: false, passthrough });
+	}
+
 	/**
 	 * Returns the call history instance.
 	 * Provided for compatibility with the `cloudflare:test` fetchMock API.
@@ -293,6 +461,10 @@ export class FetchMock {
 		this.interceptors = [];
 		this.handlerFns.clear();
 		this._calls.clear();
+		this.unmatchedRequests = [];
+		this.contractViolations = [];
+		this.recording = null;
+		this.contract = null;
 		this.catchAllInstalled = false;
 		this.adapter.deactivate();
 	}
@@ -301,6 +473,8 @@ export class FetchMock {
 		this.interceptors = [];
 		this.handlerFns.clear();
 		this._calls.clear();
+		this.unmatchedRequests = [];
+		this.contractViolations = [];
 		this._defaultReplyHeaders = {};
 		// The catch-all handler is intentionally kept installed so that no
 		// additional adapter.use() / worker.use() calls are needed between
@@ -308,39 +482,200 @@ export class FetchMock {
 		// it will correctly fall through to `_onUnhandledRequest`.
 	}
 
-	assertNoPendingInterceptors(): void {
-		const unconsumed = this.interceptors.filter(isPending);
-		if (unconsumed.length > 0) {
-			const descriptions = unconsumed.map((p) => `  ${p.method} ${p.origin}${p.path}`);
-			throw new Error(`Pending interceptor(s) not consumed:\n${descriptions.join('\n')}`);
+	/**
+	 * Starts capturing the requests that `enableNetConnect()` lets through,
+	 * together with the responses the network returns for them.
+	 */
+	startRecording(): void {
+		if (!this.adapter.bypass) {
+			throw new Error(
+				'Recording requires an adapter that can bypass interception: ' +
+					'NodeMswAdapter, BrowserMswAdapter or NativeFetchAdapter.',
+			);
+		}
+		this.recording = [];
+	}
+
+	/** Stops recording and returns the captured request/response pairs. */
+	stopRecording(): Fixture {
+		const entries = this.recording ?? [];
+		this.recording = null;
+		return { version: 1, entries };
+	}
+
+	/**
+	 * Registers one interceptor per fixture entry, matching its method, path,
+	 * query and body, and replying with the recorded status, headers and body.
+	 */
+	replay(fixture: Fixture): MockReplyChain[] {
+		return this.registerAt(callerStack(), () =>
+			fixture.entries.map((entry) => this.replayEntry(entry)),
+		);
+	}
+
+	/**
+	 * Registers one interceptor per HAR entry, replying with its status,
+	 * headers, body and (by default) its recorded `time` as a delay. Entries
+	 * with status `0` reply with a network error.
+	 */
+	loadHar(har: Har, options: LoadHarOptions = {}): MockReplyChain[] {
+		return this.registerAt(callerStack(), () =>
+			har.log.entries.map((harEntry) => {
+				const chain = this.replayEntry(fromHarEntry(harEntry), options.matchBy);
+				if ((options.delay ?? true) && harEntry.time !== undefined && harEntry.time > 0) {
+					chain.delay(Math.round(harEntry.time));
+				}
+				if (options.persist) chain.persist();
+				return chain;
+			}),
+		);
+	}
+
+	/**
+	 * Registers a persistent interceptor per operation of an OpenAPI 3.x
+	 * document, replying with the documented success status and the
+	 * response's `example`, `examples` or sample data built from its schema.
+	 * The interceptors have the lowest priority, so `operation()` and any
+	 * other interceptor registered for the same request take precedence, and
+	 * they are optional: unused operations are never pending. Like other
+	 * interceptors, `reset()` removes them.
+	 */
+	fromOpenApi(spec: OpenApiDocument, options: FromOpenApiOptions = {}): OpenApiMock {
+		const routes = openApiRoutes(spec);
+		const pool = this.get(openApiBaseUrl(spec, options.origin));
+		const interceptors: Record<string, MockReplyChain> = {};
+		this.registerAt(callerStack(), () => {
+			for (const route of routes) {
+				const chain = pool
+					.intercept({ path: route.path, method: route.method, priority: OPENAPI_PRIORITY })
+					.reply(route.status, route.body, { headers: route.headers });
+				chain.persist();
+				chain.interceptor.optional = true;
+				interceptors[route.key] = chain;
+			}
+		});
+		return {
+			interceptors,
+			operation: (key, interceptOptions) => {
+				const route = routes.find((r) => r.key === key);
+				if (!route) {
+					throw new Error(
+						`Unknown OpenAPI operation "${key}". Known operations: ${routes.map((r) => r.key).join(', ')}.`,
+					);
+				}
+				return this.registerAt(callerStack(), () =>
+					pool.intercept({ ...interceptOptions, path: route.path, method: route.method }),
+				);
+			},
+		};
+	}
+
+	/**
+	 * Runs `register` with `stack` as the call site of the interceptors it
+	 * creates, so a pending report points at the caller of the public method
+	 * rather than at library code. The outermost call site wins.
+	 */
+	private registerAt<T>(stack: string, register: () => T): T {
+		if (this.registrationStack !== undefined) return register();
+		this.registrationStack = stack;
+		try {
+			return register();
+		} finally {
+			this.registrationStack = undefined;
+		}
+	}
+
+	private replayEntry(entry: FixtureEntry, matchBy?: HarMatchField[]): MockReplyChain {
+		const interceptor = this.get(new URL(entry.request.url).origin).intercept(
+			entryInterceptOptions(entry, matchBy),
+		);
+		if (entry.response.status === 0) return interceptor.replyWithError();
+		return interceptor.reply(entry.response.status, entryReplyBody(entry), {
+			headers: entry.response.headers,
+		});
+	}
+
+	/**
+	 * Validates every request an interceptor matches against an OpenAPI 3.x
+	 * document — path, query and header parameters and the body — and the
+	 * reply against the documented response. Requests with violations fail
+	 * with a network error listing them, like unhandled requests do.
+	 */
+	enableContractValidation(spec: OpenApiDocument, options: ContractValidationOptions = {}): void {
+		assertOpenApi3(spec);
+		this.contract = { spec, baseUrl: openApiBaseUrl(spec, options.origin) };
+	}
+
+	disableContractValidation(): void {
+		this.contract = null;
+	}
+
+	/**
+	 * Throws when interceptors are still pending. The message lists each one
+	 * with its invocations, matchers and call site, plus the requests that
+	 * matched nothing; `format` picks `'text'` (default), `'table'`, `'json'`
+	 * or a custom formatter.
+	 */
+	assertNoPendingInterceptors(options?: { format?: PendingReportFormat }): void {
+		const pending = this.pendingInterceptors();
+		if (pending.length > 0) {
+			const unmatchedRequests = this.unmatchedRequests.map((request) => ({ ...request }));
+			throw new Error(formatPendingReport({ pending, unmatchedRequests }, options?.format));
+		}
+	}
+
+	/**
+	 * Throws when a request or reply violated the contract since the last
+	 * `reset()`. The failed `fetch` alone may go unnoticed when application
+	 * code catches network errors, and browsers drop the error's details.
+	 */
+	assertNoContractViolations(): void {
+		if (this.contractViolations.length > 0) {
+			throw new Error(this.contractViolations.join('\n\n'));
 		}
 	}
 
 	pendingInterceptors(): PendingInterceptor[] {
-		return this.interceptors.filter(isPending).map((p) => ({ ...p }));
+		return this.interceptors
+			.filter(isPending)
+			.map((p) => ({ ...p, ...(p.sequence && { sequence: { ...p.sequence } }) }));
 	}
 
-	private matchOriginAndPath(
-		request: Request,
+	private matchOrigin(
+		url: URL,
+		origin: string | RegExp | ((origin: string) => boolean),
+		originStr: string,
+	): boolean {
+		if (typeof origin === 'string') return url.origin === new URL(originStr).origin;
+		return origin instanceof RegExp ? origin.test(url.origin) : origin(url.origin);
+	}
+
+	/**
+	 * Matches the path alone, as if the request had been sent to the
+	 * interceptor's origin, so a wrong host can be reported on its own.
+	 */
+	private matchPathOnly(
+		url: URL,
 		origin: string | RegExp | ((origin: string) => boolean),
 		originStr: string,
 		path: InterceptOptions['path'],
+		strictQuery?: boolean,
 	): boolean {
 		if (typeof origin === 'string') {
-			// String origin: URL pattern already filtered by origin prefix,
-			// just match the path portion.
-			return matchPath(request, originStr, path);
+			// matchPath also compares origins, so move the URL onto the interceptor's first
+			const rebased = new URL(url);
+			const { protocol, host } = new URL(originStr);
+			Object.assign(rebased, { protocol, host });
+			return matchPath(new Request(rebased), originStr, path, strictQuery);
 		}
 
 		// Non-string origin: URL pattern is catch-all (/.*/),
-		// so we must manually match both origin and path.
-		const url = new URL(request.url);
-
-		if (origin instanceof RegExp ? !origin.test(url.origin) : !origin(url.origin)) {
-			return false;
-		}
-
+		// so the path is matched against the full pathname.
 		if (typeof path === 'string') {
+			const [pathname] = splitPathQuery(path);
+			if (isPathTemplate(pathname)) {
+				return matchPathTemplate(url.pathname, pathname, { suffix: true }) !== null;
+			}
 			return url.pathname === path || url.pathname.endsWith(path);
 		}
 
@@ -348,39 +683,104 @@ export class FetchMock {
 		return matchesValue(fullPath, path as RegExp | ((v: string) => boolean));
 	}
 
+	private pathParams(
+		request: Request,
+		origin: string | RegExp | ((origin: string) => boolean),
+		originStr: string,
+		path: InterceptOptions['path'],
+	): Record<string, string> {
+		if (typeof origin === 'string') {
+			return extractPathParams(relativeToOrigin(request, originStr), path);
+		}
+		const url = new URL(request.url);
+		return extractPathParams(url.pathname + url.search, path, { suffix: true });
+	}
+
 	private async matchAndConsume(
 		request: Request,
 		pending: PendingInterceptor,
 		origin: string | RegExp | ((origin: string) => boolean),
 		originStr: string,
 		options: InterceptOptions,
-	): Promise<string | null | undefined> {
-		if (!pending.persist && pending.timesInvoked >= pending.times) return;
-		if (!this.matchOriginAndPath(request, origin, originStr, options.path)) return;
-		// Check method match
-		const expectedMethod = options.method ?? 'GET';
-		if (request.method !== expectedMethod) return;
-		if (!matchQuery(request, options.query)) return;
-		if (!matchHeaders(request, options.headers)) return;
-
-		const bodyText = (await request.text()) || null;
-		if (!matchBody(bodyText, options.body)) return;
-
-		pending.timesInvoked++;
-		if (!pending.persist && pending.timesInvoked >= pending.times) {
-			pending.consumed = true;
+		nearMisses: NearMiss[],
+	): Promise<
+		| {
+				req: ReplyRequest;
+				invocation: number;
+				log?: MockCallHistoryLog;
+				contract?: ReturnType<typeof checkRequest>;
+		  }
+		| undefined
+	> {
+		if (isExhausted(pending)) return;
+		const url = new URL(request.url);
+		const originMatches = this.matchOrigin(url, origin, originStr);
+		const pathMatches = this.matchPathOnly(
+			url,
+			origin,
+			originStr,
+			options.path,
+			options.strictQuery,
+		);
+		if (!originMatches && !pathMatches) return;
+
+		const failures: string[] = [];
+		if (!originMatches) failures.push(`origin: expected ${pending.origin}, received ${url.origin}`);
+		if (!pathMatches) {
+			failures.push(`path: expected ${pending.path}, received ${url.pathname}${url.search}`);
+		}
+		if (!matchMethod(request, options.method)) {
+			failures.push(`method: expected ${pending.method}, received ${request.method}`);
+		}
+		failures.push(...diffQuery(request, options.query, options.strictQuery));
+		failures.push(...diffHeaders(request, options.headers));
+		if (failures.length > 0) {
+			nearMisses.push({ pending, failures });
+			return;
 		}
 
-		if (this._callHistoryEnabled) {
-			recordCall(this._calls, request, bodyText);
+		// Read a clone so the request body stays readable for reply callbacks
+		const rawBody = await request.clone().arrayBuffer();
+		const bodyText = rawBody.byteLength > 0 ? new TextDecoder().decode(rawBody) : null;
+		if (options.body) failures.push(...diffBody(bodyText, options.body));
+		if (failures.length === 0 && options.formData) {
+			const formData = await parseFormData(
+				bodyText === null ? null : rawBody,
+				request.headers.get('content-type'),
+			);
+			failures.push(...diffFormData(formData, options.formData));
+		}
+		if (failures.length > 0) {
+			nearMisses.push({ pending, failures });
+			return;
 		}
-		return bodyText;
+
+		// A request that violates the contract fails without using up the interceptor
+		const contract = this.contract ? checkRequest(this.contract, request, bodyText) : undefined;
+		const invocation = pending.timesInvoked;
+		if (!contract?.violations.length) {
+			pending.timesInvoked++;
+			if (!pending.persist && pending.timesInvoked >= pending.times) {
+				pending.consumed = true;
+			}
+			if (pending.sequence) {
+				pending.sequence.position = Math.min(pending.timesInvoked, pending.sequence.length);
+			}
+		}
+
+		const params = this.pathParams(request, origin, originStr, options.path);
+		// The interceptor does not serve a violating request, so it counts as unmatched
+		if (contract?.violations.length) {
+			this.unmatchedRequests.push({ method: request.method, url: request.url });
+		}
+		const details = contract?.violations.length ? { matched: false } : { interceptor: pending };
+		const log = this._callHistoryEnabled
+			? recordCall(this._calls, request, bodyText, params, rawBody, details)
+			: undefined;
+		return { req: createReplyRequest(request, bodyText, params), invocation, log, contract };
 	}
 
-	private registerHandler(
-		pending: PendingInterceptor,
-		handlerFn: (request: Request) => Promise<Response | undefined>,
-	): void {
+	private registerHandler(pending: PendingInterceptor, handlerFn: InterceptorHandler): void {
 		this.handlerFns.set(pending, handlerFn);
 		this.ensureCatchAllInstalled();
 	}
@@ -391,17 +791,132 @@ export class FetchMock {
 		originStr: string,
 		options: InterceptOptions,
 		delayRef: { ms: number },
-		respond: (bodyText: string | null) => Promise<Response>,
-	): (request: Request) => Promise<Response | undefined> {
-		return async (request: Request) => {
-			const bodyText = await this.matchAndConsume(request, pending, origin, originStr, options);
-			if (bodyText === undefined) return;
+		respond: (req: ReplyRequest, invocation: number) => Promise<Response>,
+	): InterceptorHandler {
+		return async (request, nearMisses) => {
+			const match = await this.matchAndConsume(
+				request,
+				pending,
+				origin,
+				originStr,
+				options,
+				nearMisses,
+			);
+			if (!match) return;
+
+			const { contract } = match;
+			if (contract && contract.violations.length > 0) {
+				return this.contractViolation(request, contract.violations, contract.match, match.log);
+			}
 
 			if (delayRef.ms > 0) {
 				await new Promise((resolve) => setTimeout(resolve, delayRef.ms));
 			}
 
-			return respond(bodyText);
+			let response = await respond(match.req, match.invocation);
+			// HEAD responses carry the same headers as GET but never a body
+			if (request.method === 'HEAD' && response.body !== null) {
+				response = new Response(null, {
+					status: response.status,
+					statusText: response.statusText,
+					headers: response.headers,
+				});
+			}
+			if (this.contract && contract?.match) {
+				const violations = await validateResponse(this.contract.spec, contract.match, response);
+				if (violations.length > 0) {
+					return this.contractViolation(request, violations, contract.match, match.log);
+				}
+			}
+			if (match.log) await recordResponse(match.log, response, delayRef.ms);
+			return response;
+		};
+	}
+
+	private contractViolation(
+		request: Request,
+		violations: string[],
+		operation: ContractOperation | undefined,
+		log: MockCallHistoryLog | undefined,
+	): Response {
+		const message = formatContractViolations(request, violations, operation);
+		this.contractViolations.push(message);
+		const response = this.handlerFactory.buildErrorResponse(new TypeError(message));
+		if (log) recordResponse(log, response, 0);
+		return response;
+	}
+
+	/**
+	 * Serves the step for the given (zero-based) call. Once every step has been
+	 * served the last one repeats, unless the sequence errors when exhausted.
+	 */
+	private respondInSequence(
+		pending: PendingInterceptor,
+		responders: Responder[],
+		req: ReplyRequest,
+		invocation: number,
+	): Promise<Response> {
+		if (invocation >= responders.length && pending.sequence?.whenExhausted === 'error') {
+			return Promise.resolve(this.handlerFactory.buildErrorResponse());
+		}
+		return responders[Math.min(invocation, responders.length - 1)](req);
+	}
+
+	private toSequence(
+		pending: PendingInterceptor,
+		responders: Responder[],
+	): NonNullable<PendingInterceptor['sequence']> {
+		pending.sequence ??= { length: 0, position: 0, whenExhausted: 'fallthrough' };
+		pending.sequence.length = responders.length;
+		pending.sequence.position = Math.min(pending.timesInvoked, responders.length);
+		return pending.sequence;
+	}
+
+	/** Adds a step; `times` follows the number of steps unless `times()` set it. */
+	private appendStep(
+		pending: PendingInterceptor,
+		responders: Responder[],
+		responder: Responder,
+		explicitTimes: boolean,
+	) {
+		responders.push(responder);
+		this.toSequence(pending, responders);
+		if (!explicitTimes) pending.times = responders.length;
+		pending.consumed = pending.timesInvoked >= pending.times;
+	}
+
+	private replyResponder(
+		statusOrCallback: number | SingleReplyCallback,
+		bodyOrCallback: unknown | ReplyCallback,
+		replyOptions: ReplyOptions | undefined,
+		contentLengthRef: { enabled: boolean },
+	): Responder {
+		return async (req) => {
+			if (typeof statusOrCallback === 'function') {
+				const result = await statusOrCallback(req);
+				if (result instanceof Response) return result;
+				return this.buildResponse(
+					result.statusCode,
+					result.data,
+					result.responseOptions,
+					this._defaultReplyHeaders,
+					contentLengthRef.enabled,
+				);
+			}
+
+			const responseBody =
+				typeof bodyOrCallback === 'function'
+					? await (bodyOrCallback as ReplyCallback)(req)
+					: bodyOrCallback;
+			if (responseBody instanceof Response) return responseBody;
+
+			return this.buildResponse(
+				statusOrCallback,
+				responseBody,
+				replyOptions,
+				this._defaultReplyHeaders,
+				contentLengthRef.enabled,
+			);
 		};
 	}
 
@@ -410,9 +925,12 @@ export class FetchMock {
 		delayRef: { ms: number },
 		contentLengthRef: { enabled: boolean },
 		pool: MockPool,
+		responders: Responder[],
 	): MockReplyChain {
-		return {
+		let explicitTimes = false;
+		const chain: MockReplyChain = {
 			times(n: number) {
+				explicitTimes = true;
 				pending.times = n;
 				pending.consumed = false;
 			},
@@ -426,10 +944,46 @@ export class FetchMock {
 			replyContentLength() {
 				contentLengthRef.enabled = true;
 			},
-			intercept(options: InterceptOptions): MockInterceptor {
-				return pool.intercept(options);
+			intercept: (options: InterceptOptions): MockInterceptor =>
+				this.registerAt(callerStack(), () => pool.intercept(options)),
+			thenReply: (
+				statusOrCallback: number | SingleReplyCallback,
+				bodyOrCallback?: unknown | ReplyCallback,
+				replyOptions?: ReplyOptions,
+			): MockReplyChain => {
+				this.appendStep(
+					pending,
+					responders,
+					this.replyResponder(statusOrCallback, bodyOrCallback, replyOptions, contentLengthRef),
+					explicitTimes,
+				);
+				return chain;
 			},
+			thenReplyWithError: (error?: Error): MockReplyChain => {
+				this.appendStep(
+					pending,
+					responders,
+					async () => this.handlerFactory.buildErrorResponse(error),
+					explicitTimes,
+				);
+				return chain;
+			},
+			whenExhausted: (mode: SequenceExhaustion): MockReplyChain => {
+				this.toSequence(pending, responders).whenExhausted = mode;
+				return chain;
+			},
+			remove: () => {
+				this.handlerFns.delete(pending);
+				this.interceptors = this.interceptors.filter((p) => p !== pending);
+			},
+			isDone: () => !isPending(pending),
+			get timesInvoked() {
+				return pending.timesInvoked;
+			},
+			calls: () => this._calls.forInterceptor(pending),
+			interceptor: pending,
 		};
+		return chain;
 	}
 
 	get(origin: string | RegExp | ((origin: string) => boolean)): MockPool {
@@ -443,13 +997,25 @@ export class FetchMock {
 		const pool: MockPool = {
 			intercept: (options: InterceptOptions): MockInterceptor => {
 				// Validate: cannot use both path query string and query parameter
-				if (typeof options.path === 'string' && options.path.includes('?') && options.query) {
+				if (
+					typeof options.path === 'string' &&
+					splitPathQuery(options.path)[1] !== undefined &&
+					options.query
+				) {
 					throw new Error(
 						'Cannot use both query string in path and query parameter. Use either path: "/api?limit=10" or path: "/api", query: { limit: "10" }',
 					);
 				}
 
 				const method = options.method ?? 'GET';
+				const methodStr =
+					typeof method === 'string'
+						? method.toUpperCase()
+						: Array.isArray(method)
+							? method.map((m) => m.toUpperCase()).join('|')
+							: typeof method === 'function'
+								? '<function>'
+								: method.toString();
 				const pathStr =
 					typeof options.path === 'string'
 						? options.path
@@ -457,80 +1023,154 @@ export class FetchMock {
 							? '<function>'
 							: options.path.toString();
 				const pending: PendingInterceptor = {
+					id: this.nextInterceptorId++,
 					origin: originStr,
 					path: pathStr,
-					method,
+					method: methodStr,
 					consumed: false,
 					times: 1,
 					timesInvoked: 0,
 					persist: false,
+					...(options.priority !== undefined && { priority: options.priority }),
 				};
+				const matchers = describeInterceptOptions(options);
+				if (matchers) pending.matchers = matchers;
+				const stack = this.registrationStack ?? callerStack();
+				if (stack) pending.stack = stack;
+				if (this._currentTest !== undefined) pending.test = this._currentTest;
 				this.interceptors.push(pending);
 
-				return {
+				const register = (
+					respond: Responder,
+					contentLengthRef = { enabled: false },
+				): MockReplyChain => {
+					const delayRef = { ms: 0 };
+					const responders = [respond];
+					this.registerHandler(
+						pending,
+						this.createMatchingHandler(
+							pending,
+							origin,
+							originStr,
+							options,
+							delayRef,
+							(req, invocation) => this.respondInSequence(pending, responders, req, invocation),
+						),
+					);
+					return this.buildChain(pending, delayRef, contentLengthRef, pool, responders);
+				};
+
+				const interceptor: MockInterceptor = {
 					reply: (
 						statusOrCallback: number | SingleReplyCallback,
 						bodyOrCallback?: unknown | ReplyCallback,
 						replyOptions?: ReplyOptions,
 					): MockReplyChain => {
-						const delayRef = { ms: 0 };
 						const contentLengthRef = { enabled: false };
+						return register(
+							this.replyResponder(statusOrCallback, bodyOrCallback, replyOptions, contentLengthRef),
+							contentLengthRef,
+						);
+					},
+
+					replyWithError: (error?: Error): MockReplyChain => {
+						return register(async () => this.handlerFactory.buildErrorResponse(error));
+					},
 
-						const respond = async (bodyText: string | null): Promise<Response> => {
-							if (typeof statusOrCallback === 'function') {
-								const result = await statusOrCallback({ body: bodyText });
-								return this.buildResponse(
-									result.statusCode,
-									result.data,
-									result.responseOptions,
+					replyText: (
+						status: number,
+						text: string,
+						replyOptions?: ReplyOptions,
+					): MockReplyChain => {
+						const contentLengthRef = { enabled: false };
+						return register(
+							async () =>
+								this.buildResponse(
+									status,
+									text,
+									replyOptions,
 									this._defaultReplyHeaders,
 									contentLengthRef.enabled,
-								);
-							}
+								),
+							contentLengthRef,
+						);
+					},
 
-							const responseBody =
-								typeof bodyOrCallback === 'function'
-									? await (bodyOrCallback as ReplyCallback)({ body: bodyText })
-									: bodyOrCallback;
+					replyBinary: (
+						status: number,
+						data: BinaryBody,
+						replyOptions?: ReplyOptions,
+					): MockReplyChain => {
+						const contentLengthRef = { enabled: false };
+						return register(
+							async () =>
+								this.buildResponse(
+									status,
+									ArrayBuffer.isView(data) ? copyToArrayBuffer(data) : data,
+									replyOptions,
+									this._defaultReplyHeaders,
+									contentLengthRef.enabled,
+								),
+							contentLengthRef,
+						);
+					},
 
-							return this.buildResponse(
-								statusOrCallback,
-								responseBody,
+					replyStream: (
+						status: number,
+						chunks: StreamSource<StreamChunk>,
+						replyOptions?: StreamReplyOptions,
+					): MockReplyChain => {
+						return register(async () =>
+							this.buildStreamResponse(
+								status,
+								createChunkStream(chunks, (chunk) => chunk, replyOptions?.chunkDelay),
 								replyOptions,
 								this._defaultReplyHeaders,
-								contentLengthRef.enabled,
-							);
-						};
-
-						this.registerHandler(
-							pending,
-							this.createMatchingHandler(pending, origin, originStr, options, delayRef, respond),
+							),
 						);
-
-						return this.buildChain(pending, delayRef, contentLengthRef, pool);
 					},
 
-					replyWithError: (): MockReplyChain => {
-						const delayRef = { ms: 0 };
-						const contentLengthRef = { enabled: false };
-
-						this.registerHandler(
-							pending,
-							this.createMatchingHandler(
-								pending,
-								origin,
-								originStr,
-								options,
-								delayRef,
-								async () => {
-									return this.handlerFactory.buildErrorResponse();
+					replySse: (
+						events: StreamSource<SseEvent | string>,
+						replyOptions?: StreamReplyOptions,
+					): MockReplyChain => {
+						return register(async () =>
+							this.buildStreamResponse(
+								200,
+								createChunkStream(events, formatSseEvent, replyOptions?.chunkDelay),
+								replyOptions,
+								{
+									...this._defaultReplyHeaders,
+									'Content-Type': 'text/event-stream',
+									'Cache-Control': 'no-cache',
 								},
 							),
 						);
+					},
 
-						return this.buildChain(pending, delayRef, contentLengthRef, pool);
+					replySequence: (
+						steps: ReplySequenceStep[],
+						sequenceOptions?: ReplySequenceOptions,
+					): MockReplyChain => {
+						if (steps.length === 0) {
+							throw new Error('replySequence() requires at least one step.');
+						}
+						const [first, ...rest] = steps;
+						const chain =
+							first instanceof Error
+								? interceptor.replyWithError(first)
+								: typeof first === 'number'
+									? interceptor.reply(first)
+									: interceptor.reply(typeof first === 'function' ? first : () => first);
+						for (const step of rest) {
+							if (step instanceof Error) chain.thenReplyWithError(step);
+							else if (typeof step === 'number') chain.thenReply(step);
+							else chain.thenReply(typeof step === 'function' ? step : () => step);
+						}
+						return chain.whenExhausted(sequenceOptions?.whenExhausted ?? 'fallthrough');
 					},
 				};
+				return interceptor;
 			},
 		};
 
@@ -0,0 +1,53 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { entryInterceptOptions, loadFixture, saveFixture } from './fixtures';
+import { type Fixture, type FixtureEntry } from './types';
+
+function createEntry(url: string, body?: string): FixtureEntry {
+	return {
+		request: { method: 'POST', url, headers: {}, ...(body !== undefined && { body }) },
+		response: { status: 200, headers: {}, body: 'ok' },
+	};
+}
+
+describe('fixture files', () => {
+	const dir = mkdtempSync(join(tmpdir(), 'msw-fetch-mock-'));
+
+	afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+	it('should save and load a fixture, creating directories', async () => {
+		const fixture: Fixture = { version: 1, entries: [createEntry('http://api.test/users')] };
+		const path = join(dir, 'nested', 'users.json');
+
+		await saveFixture(path, fixture);
+
+		expect(await loadFixture(path)).toEqual(fixture);
+	});
+
+	it('should reject files that are not fixtures', async () => {
+		const path = join(dir, 'other.json');
+		writeFileSync(path, '{"log":{}}');
+
+		await expect(loadFixture(path)).rejects.toThrow(`Unsupported fixture format in ${path}.`);
+	});
+});
+
+describe('entryInterceptOptions', () => {
+	it('should match the recorded method, path, query and body', () => {
+		expect(entryInterceptOptions(createEntry('http://api.test/users?page=2', 'a'))).toEqual({
+			path: '/users?page=2',
+			method: 'POST',
+			body: 'a',
+		});
+	});
+
+	it('should match paths that look like templates literally', () => {
+		const { path } = entryInterceptOptions(createEntry('http://api.test/files/*'));
+
+		expect(typeof path).toBe('function');
+		expect((path as (p: string) => boolean)('/files/*')).toBe(true);
+		expect((path as (p: string) => boolean)('/files/a')).toBe(false);
+	});
+});
@@ -0,0 +1,137 @@
+import { encodeBody, fromBase64 } from './body';
+import { isPathTemplate } from './matchers';
+import {
+	type Fixture,
+	type FixtureEntry,
+	type HarMatchField,
+	type InterceptOptions,
+	type PathMatcher,
+} from './types';
+
+/** Request headers left out of fixtures so credentials are not written to disk. */
+const REDACTED_REQUEST_HEADERS = new Set(['authorization', 'cookie', 'proxy-authorization']);
+
+/**
+ * Response headers that describe the wire encoding rather than the body: the
+ * recorded body is already decoded, so replaying them would corrupt it.
+ */
+export const TRANSPORT_RESPONSE_HEADERS = new Set([
+	'connection',
+	'content-encoding',
+	'content-length',
+	'keep-alive',
+	'transfer-encoding',
+]);
+
+/**
+ * Re-wraps a network response without its transport headers. `fetch` has
+ * already decoded the body, so passing `Content-Encoding` on would make the
+ * interceptor decode it a second time.
+ */
+export function withoutTransportHeaders(response: Response): Response {
+	const headers = new Headers(response.headers);
+	for (const name of TRANSPORT_RESPONSE_HEADERS) headers.delete(name);
+	return new Response(response.body, {
+		status: response.status,
+		statusText: response.statusText,
+		headers,
+	});
+}
+
+export function headersToRecord(headers: Headers, omit: Set<string>): Record<string, string> {
+	const record: Record<string, string> = {};
+	headers.forEach((value, key) => {
+		if (!omit.has(key)) record[key] = value;
+	});
+	return record;
+}
+
+/** Reads both bodies and captures the pair as a fixture entry. */
+export async function captureEntry(request: Request, response: Response): Promise<FixtureEntry> {
+	const requestBody = await request.text();
+	return {
+		request: {
+			method: request.method,
+			url: request.url,
+			headers: headersToRecord(request.headers, REDACTED_REQUEST_HEADERS),
+			...(requestBody !== '' && { body: requestBody }),
+		},
+		response: {
+			status: response.status,
+			headers: headersToRecord(response.headers, TRANSPORT_RESPONSE_HEADERS),
+			...encodeBody(await response.arrayBuffer()),
+		},
+	};
+}
+
+const ANY = /.*/;
+
+/** Matches the recorded path and query; a literal `*` or `/:name` must not act as a template. */
+function recordedPath(url: URL): PathMatcher {
+	const path = url.pathname + url.search;
+	return isPathTemplate(url.pathname) ? (actual: string) => actual === path : path;
+}
+
+/**
+ * Intercept options that match the recorded request: `url` covers the path
+ * and query, and fields left out of `matchBy` match anything.
+ */
+export function entryInterceptOptions(
+	entry: FixtureEntry,
+	matchBy: HarMatchField[] = ['method', 'url', 'body'],
+): InterceptOptions {
+	const { url, method, body } = entry.request;
+	return {
+		path: matchBy.includes('url') ? recordedPath(new URL(url)) : ANY,
+		method: matchBy.includes('method') ? method : ANY,
+		...(matchBy.includes('body') && body !== undefined && { body }),
+	};
+}
+
+/** The recorded response body, decoded for `reply()`; `null` when empty. */
+export function entryReplyBody(entry: FixtureEntry): string | Uint8Array | null {
+	const { body, encoding } = entry.response;
+	if (body === '') return null;
+	return encoding === 'base64' ? fromBase64(body) : body;
+}
+
+interface FileSystem {
+	readFile(path: string, encoding: 'utf8'): Promise<string>;
+	writeFile(path: string, data: string): Promise<void>;
+	mkdir(path: string, options: { recursive: true }): Promise<unknown>;
+}
+
+// Kept out of a static import so browser and edge bundles never resolve it
+const FS_MODULE = 'node:fs/promises';
+
+function fileSystem(): Promise<FileSystem> {
+	return import(/* @vite-ignore */ FS_MODULE);
+}
+
+/** Reads and parses a JSON file. Node.js only. */
+export async function readJsonFile(path: string): Promise<unknown> {
+	const fs = await fileSystem();
+	return JSON.parse(await fs.readFile(path, 'utf8'));
+}
+
+/** Reads a fixture written by `saveFixture()`. Node.js only. */
+export async function loadFixture(path: string): Promise<Fixture> {
+	const fixture = (await readJsonFile(path)) as Fixture;
+	if (fixture.version !== 1 || !Array.isArray(fixture.entries)) {
+		throw new Error(`Unsupported fixture format in ${path}.`);
+	}
+	return fixture;
+}
+
+/** Writes `data` as indented JSON, creating missing directories. Node.js only. */
+export async function writeJsonFile(path: string, data: unknown): Promise<void> {
+	const fs = await fileSystem();
+	const dir = path.replace(/[\\/][^\\/]*$/, '');
+	if (dir !== path && dir !== '') await fs.mkdir(dir, { recursive: true });
+	await fs.writeFile(path, `${JSON.stringify(data, null, 2)}\n`);
+}
+
+/** Writes a fixture as JSON, creating missing directories. Node.js only. */
+export function saveFixture(path: string, fixture: Fixture): Promise<void> {
+	return writeJsonFile(path, fixture);
+}
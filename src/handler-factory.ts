@@ -1,17 +1,30 @@
-import { HttpResponse, http } from 'msw';
-import { type HandlerFactory as HandlerFactoryType, type HttpMethod } from './types';
+import { HttpHandler, HttpResponse, http } from 'msw';
+import { isRawBody, withDefaultContentType } from './body';
+import { getNetworkError, tagNetworkError } from './network-error';
+import { type HandlerFactory as HandlerFactoryType, type StandardHttpMethod } from './types';
 
-const methods: Record<HttpMethod, typeof http.get> = {
+type HandlerFn = (request: Request) => Promise<Response | undefined>;
+
+const methods: Record<StandardHttpMethod, typeof http.get> = {
 	GET: http.get,
 	POST: http.post,
 	PUT: http.put,
 	DELETE: http.delete,
 	PATCH: http.patch,
+	HEAD: http.head,
+	OPTIONS: http.options,
 };
 
 export const HandlerFactory: HandlerFactoryType = {
 	createHandler(method, urlPattern, handlerFn) {
-		return methods[method](urlPattern, async ({ request }) => handlerFn(request));
+		const create = methods[method.toUpperCase() as StandardHttpMethod];
+		if (create) {
+			return create(urlPattern, async ({ request }) => handlerFn(request));
+		}
+		// Custom verbs (e.g. PROPFIND, REPORT) have no `http.*` shorthand
+		return new HttpHandler(method.toUpperCase(), urlPattern, async ({ request }) =>
+			handlerFn(request),
+		);
 	},
 
 	createCatchAllHandler(handlerFn) {
@@ -22,10 +35,72 @@ export const HandlerFactory: HandlerFactoryType = {
 		if (body === null || body === undefined) {
 			return new HttpResponse(null, { status, headers });
 		}
+		if (isRawBody(body)) {
+			return new HttpResponse(body, { status, headers: withDefaultContentType(body, headers) });
+		}
 		return HttpResponse.json(body, { status, headers });
 	},
 
-	buildErrorResponse() {
-		return HttpResponse.error();
+	buildStreamResponse(status, stream, headers) {
+		return new HttpResponse(stream, { status, headers });
+	},
+
+	buildErrorResponse(error) {
+		return tagNetworkError(HttpResponse.error(), error);
+	},
+};
+
+/**
+ * In Node, `@mswjs/interceptors` rejects `fetch` with an error thrown from a
+ * resolver only when it has both `code` and `errno` properties; anything else
+ * is turned into a 500 response. The missing ones are defined as
+ * non-enumerable `undefined` values, which error classifiers read the same
+ * as absent ones.
+ */
+function asNodeLikeError(error: Error): Error {
+	for (const key of ['code', 'errno']) {
+		if (!(key in error)) {
+			Object.defineProperty(error, key, { value: undefined, configurable: true, writable: true });
+		}
+	}
+	return error;
+}
+
+/**
+ * Errors with a `code` (system, TLS, undici errors) reject `fetch` as-is.
+ * Others are wrapped the way undici reports network failures: a
+ * `TypeError('fetch failed')` whose `cause` is the original error.
+ */
+function toRejection(error: Error): Error {
+	if ('code' in error && ('errno' in error || Object.isExtensible(error))) {
+		return asNodeLikeError(error);
+	}
+	return asNodeLikeError(new TypeError('fetch failed', { cause: error }));
+}
+
+function rejectWithNetworkError(handlerFn: HandlerFn): HandlerFn {
+	return async (request) => {
+		const response = await handlerFn(request);
+		const error = response && getNetworkError(response);
+		if (error) throw toRejection(error);
+		return response;
+	};
+}
+
+/**
+ * Node variant of {@link HandlerFactory}: `replyWithError(error)` makes `fetch`
+ * reject with the supplied error instead of a generic network error. The
+ * browser keeps the generic behaviour — the Service Worker cannot transfer
+ * error instances.
+ */
+export const NodeHandlerFactory: HandlerFactoryType = {
+	...HandlerFactory,
+
+	createHandler(method, urlPattern, handlerFn) {
+		return HandlerFactory.createHandler(method, urlPattern, rejectWithNetworkError(handlerFn));
+	},
+
+	createCatchAllHandler(handlerFn) {
+		return HandlerFactory.createCatchAllHandler(rejectWithNetworkError(handlerFn));
 	},
 };
@@ -0,0 +1,52 @@
+/**
+ * HAR 1.2 types, kept free of imports so both `loadHar()` and
+ * `MockCallHistory.toHar()` can use them. Fields `loadHar()` does not read
+ * are optional; `toHar()` always fills them in.
+ */
+
+export interface HarHeader {
+	name: string;
+	value: string;
+}
+
+export interface HarEntry {
+	/** ISO 8601 time at which the request started. */
+	startedDateTime?: string;
+	/** Total elapsed time of the request in milliseconds. */
+	time?: number;
+	request: {
+		method: string;
+		url: string;
+		httpVersion?: string;
+		cookies?: HarHeader[];
+		headers?: HarHeader[];
+		queryString?: HarHeader[];
+		postData?: { mimeType?: string; text?: string };
+		headersSize?: number;
+		bodySize?: number;
+	};
+	response: {
+		/** `0` for requests that failed or were blocked. */
+		status: number;
+		statusText?: string;
+		httpVersion?: string;
+		cookies?: HarHeader[];
+		headers?: HarHeader[];
+		content?: { size?: number; mimeType?: string; text?: string; encoding?: string };
+		redirectURL?: string;
+		headersSize?: number;
+		bodySize?: number;
+	};
+	cache?: Record<string, never>;
+	timings?: { send: number; wait: number; receive: number };
+	comment?: string;
+}
+
+/** A HAR archive, e.g. exported from the browser's network panel. */
+export interface Har {
+	log: {
+		version?: string;
+		creator?: { name: string; version: string };
+		entries: HarEntry[];
+	};
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { fromHarEntry } from './har';
+
+describe('fromHarEntry', () => {
+	it('should convert requests and responses to fixture entries', () => {
+		expect(
+			fromHarEntry({
+				request: {
+					method: 'POST',
+					url: 'https://api.test/users',
+					headers: [{ name: 'Content-Type', value: 'application/json' }],
+					postData: { mimeType: 'application/json', text: '{"name":"Alice"}' },
+				},
+				response: {
+					status: 200,
+					headers: [
+						{ name: ':status', value: '200' },
+						{ name: 'Content-Encoding', value: 'gzip' },
+						{ name: 'Vary', value: 'Accept' },
+						{ name: 'Vary', value: 'Origin' },
+					],
+					content: { mimeType: 'image/png', text: 'iVBORw==', encoding: 'base64' },
+				},
+			}),
+		).toEqual({
+			request: {
+				method: 'POST',
+				url: 'https://api.test/users',
+				headers: { 'content-type': 'application/json' },
+				body: '{"name":"Alice"}',
+			},
+			response: {
+				status: 200,
+				headers: { vary: 'Accept, Origin' },
+				body: 'iVBORw==',
+				encoding: 'base64',
+			},
+		});
+	});
+
+	it('should default missing headers and content', () => {
+		expect(
+			fromHarEntry({
+				request: { method: 'GET', url: 'https://api.test/ping' },
+				response: { status: 204 },
+			}),
+		).toEqual({
+			request: { method: 'GET', url: 'https://api.test/ping', headers: {} },
+			response: { status: 204, headers: {}, body: '' },
+		});
+	});
+});
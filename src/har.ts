@@ -0,0 +1,33 @@
+import { headersToRecord, TRANSPORT_RESPONSE_HEADERS } from './fixtures';
+import { type FixtureEntry, type HarEntry, type HarHeader } from './types';
+
+const NONE = new Set<string>();
+
+/** Folds HAR's header list into a record, joining repeated names and skipping HTTP/2 pseudo-headers. */
+function harHeaders(headers: HarHeader[] = [], omit = NONE): Record<string, string> {
+	const result = new Headers();
+	for (const { name, value } of headers) {
+		if (!name.startsWith(':')) result.append(name, value);
+	}
+	return headersToRecord(result, omit);
+}
+
+/** Converts a HAR entry to the fixture shape `replay()` registers. */
+export function fromHarEntry(entry: HarEntry): FixtureEntry {
+	const { request, response } = entry;
+	const { text = '', encoding } = response.content ?? {};
+	return {
+		request: {
+			method: request.method,
+			url: request.url,
+			headers: harHeaders(request.headers),
+			...(request.postData?.text !== undefined && { body: request.postData.text }),
+		},
+		response: {
+			status: response.status,
+			headers: harHeaders(response.headers, TRANSPORT_RESPONSE_HEADERS),
+			body: text,
+			...(encoding === 'base64' && { encoding: 'base64' as const }),
+		},
+	};
+}
@@ -1,26 +1,72 @@
 export type {
 	ActivateOptions,
+	AsymmetricMatcher,
+	BinaryBody,
+	BodyMatcher,
 	CallHistoryFilterCriteria,
+	ContractValidationOptions,
+	Fixture,
+	FixtureEntry,
+	FormFieldMatcher,
+	FormFileMatcher,
+	FromOpenApiOptions,
 	HandlerFactory,
+	Har,
+	HarEntry,
+	HarHeader,
+	HarMatchField,
 	InterceptOptions,
+	InterceptorHandle,
+	InterceptorMatchers,
+	InterceptorRef,
+	JsonMatcher,
+	LifecycleHooks,
+	LoadHarOptions,
 	MockCallHistoryLogData,
 	MockInterceptor,
 	MockPool,
 	MockReplyChain,
 	MswAdapter,
 	OnUnhandledRequest,
+	OpenApiDocument,
+	OpenApiMock,
+	OpenApiSchema,
 	PendingInterceptor,
+	PendingInterceptorsReport,
+	PendingReportFormat,
+	PendingReportFormatter,
+	QueryValueMatcher,
 	ReplyCallback,
 	ReplyOptions,
+	ReplyRequest,
+	ReplySequenceOptions,
+	ReplySequenceStep,
+	SequenceExhaustion,
+	SetupFetchMockOptions,
 	SetupServerLike,
 	SingleReplyCallback,
 	SingleReplyResult,
+	SseEvent,
+	StreamChunk,
+	StreamReplyOptions,
+	StreamSource,
+	TestRunner,
+	UnmatchedRequest,
 } from './node';
 export {
+	anyNumber,
+	anyString,
+	anything,
 	createFetchMock,
 	FetchMock,
 	fetchMock,
+	loadFixture,
+	loadOpenApi,
 	MockCallHistory,
 	MockCallHistoryLog,
 	NodeMswAdapter,
+	partial,
+	saveFixture,
+	setupFetchMock,
+	stringMatching,
 } from './node';
@@ -0,0 +1,7 @@
+import { setupFetchMock } from './node';
+
+/**
+ * Jest setup file (`setupFilesAfterEnv: ['msw-fetch-mock/jest/setup']`) that
+ * wires the `fetchMock` singleton into every test file's lifecycle.
+ */
+setupFetchMock({ runner: 'jest' });
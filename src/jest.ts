@@ -0,0 +1,25 @@
+import type {} from 'expect';
+import { type FetchMockMatchers, fetchMatchers } from './fetch-matchers';
+
+export type { CallCriteria, FetchMockMatchers } from './fetch-matchers';
+export { fetchMatchers } from './fetch-matchers';
+
+const jestExpect = (globalThis as { expect?: { extend(matchers: object): void } }).expect;
+if (!jestExpect) {
+	throw new Error(
+		'msw-fetch-mock/jest must be loaded inside Jest, e.g. from `setupFilesAfterEnv`.',
+	);
+}
+jestExpect.extend(fetchMatchers);
+
+declare global {
+	namespace jest {
+		// biome-ignore lint/complexity/noBannedTypes: must match @types/jest's own declaration
+		interface Matchers<R, T = {}> extends FetchMockMatchers<R> {}
+	}
+}
+
+// `expect` from `@jest/globals` is typed by the `expect` package, not the `jest` namespace
+declare module 'expect' {
+	interface Matchers<R extends void | Promise<void>, T = unknown> extends FetchMockMatchers<R> {}
+}
@@ -1,5 +1,7 @@
 import { describe, expect, it, vi } from 'vitest';
+import { createFetchMock, setupFetchMock } from './legacy';
 import { createLegacyHandlerFactory, type LegacyRestApi } from './legacy-handler-factory';
+import { type LifecycleHooks } from './lifecycle';
 
 /* ---------- MSW legacy (v1) API mocks ---------- */
 
@@ -20,6 +22,9 @@ function createMockRestApi(): LegacyRestApi & { _resolvers: Map<string, V1Resolv
 		put: createMethod('PUT'),
 		delete: createMethod('DELETE'),
 		patch: createMethod('PATCH'),
+		head: createMethod('HEAD'),
+		options: createMethod('OPTIONS'),
+		all: createMethod('ALL'),
 		_resolvers: resolvers,
 	};
 }
@@ -97,6 +102,22 @@ describe('legacyHandlerFactory', () => {
 			expect(response.headers.get('X-Custom')).toBe('test');
 		});
 
+		it('should pass string bodies through without JSON encoding', async () => {
+			const factory = createLegacyHandlerFactory(createMockRestApi());
+			const response = factory.buildResponse(200, 'id,name');
+
+			expect(response.headers.get('content-type')).toMatch(/^text\/plain/);
+			expect(await response.text()).toBe('id,name');
+		});
+
+		it('should pass binary bodies through with octet-stream content type', async () => {
+			const factory = createLegacyHandlerFactory(createMockRestApi());
+			const response = factory.buildResponse(200, new Uint8Array([1, 2]));
+
+			expect(response.headers.get('content-type')).toBe('application/octet-stream');
+			expect(new Uint8Array(await response.arrayBuffer())).toEqual(new Uint8Array([1, 2]));
+		});
+
 		it('should set content-type to application/json for JSON body', () => {
 			const factory = createLegacyHandlerFactory(createMockRestApi());
 			const response = factory.buildResponse(200, { ok: true });
@@ -105,6 +126,25 @@ describe('legacyHandlerFactory', () => {
 		});
 	});
 
+	describe('buildStreamResponse', () => {
+		it('should buffer the stream into the legacy response body', async () => {
+			const restApi = createMockRestApi();
+			const factory = createLegacyHandlerFactory(restApi);
+			const stream = new Blob(['data: hi\n\n']).stream();
+
+			const handlerFn = vi.fn().mockResolvedValue(factory.buildStreamResponse(200, stream));
+			factory.createHandler('GET', '/api/events', handlerFn);
+
+			const resolver = restApi._resolvers.get('GET /api/events')!;
+			const req = createMockV1Request({ url: 'http://localhost/api/events', method: 'GET' });
+			const { res, collected } = createMockV1Res();
+
+			await resolver(req, res, createMockV1Ctx());
+
+			expect(collected).toContainEqual({ _type: 'body', value: 'data: hi\n\n' });
+		});
+	});
+
 	describe('buildErrorResponse', () => {
 		it('should create a network error response', () => {
 			const factory = createLegacyHandlerFactory(createMockRestApi());
@@ -135,6 +175,45 @@ describe('legacyHandlerFactory', () => {
 			expect(restApi._resolvers.has('POST /api/data')).toBe(true);
 		});
 
+		it('should register handler for HEAD and OPTIONS methods', () => {
+			const restApi = createMockRestApi();
+			const factory = createLegacyHandlerFactory(restApi);
+
+			const handlerFn = vi.fn().mockResolvedValue(undefined);
+			factory.createHandler('HEAD', '/api/data', handlerFn);
+			factory.createHandler('OPTIONS', '/api/data', handlerFn);
+
+			expect(restApi._resolvers.has('HEAD /api/data')).toBe(true);
+			expect(restApi._resolvers.has('OPTIONS /api/data')).toBe(true);
+		});
+
+		it('should register custom verbs on rest.all and filter by method', async () => {
+			const restApi = createMockRestApi();
+			const factory = createLegacyHandlerFactory(restApi);
+
+			const handlerFn = vi.fn().mockResolvedValue(factory.buildResponse(207, { ok: true }));
+			factory.createHandler('PROPFIND', '/api/files', handlerFn);
+
+			const resolver = restApi._resolvers.get('ALL /api/files')!;
+			const { res } = createMockV1Res();
+			const ctx = createMockV1Ctx();
+
+			const skipped = await resolver(
+				createMockV1Request({ url: 'http://localhost/api/files', method: 'GET' }),
+				res,
+				ctx,
+			);
+			expect(skipped).toBeUndefined();
+			expect(handlerFn).not.toHaveBeenCalled();
+
+			await resolver(
+				createMockV1Request({ url: 'http://localhost/api/files', method: 'PROPFIND' }),
+				res,
+				ctx,
+			);
+			expect(handlerFn).toHaveBeenCalledTimes(1);
+		});
+
 		it('should support RegExp URL patterns', () => {
 			const restApi = createMockRestApi();
 			const factory = createLegacyHandlerFactory(restApi);
@@ -215,6 +294,62 @@ describe('legacyHandlerFactory', () => {
 			expect(await passedRequest.text()).toBe('raw text body');
 		});
 
+		it('should rebuild parsed multipart bodies as FormData', async () => {
+			const restApi = createMockRestApi();
+			const factory = createLegacyHandlerFactory(restApi);
+
+			const handlerFn = vi.fn().mockResolvedValue(factory.buildResponse(200, { ok: true }));
+			factory.createHandler('POST', '/api/upload', handlerFn);
+
+			const resolver = restApi._resolvers.get('POST /api/upload')!;
+			const req = createMockV1Request({
+				url: 'http://localhost/api/upload',
+				method: 'POST',
+				headers: { 'content-type': 'multipart/form-data; boundary=v1-boundary' },
+				body: {
+					title: 'Report',
+					tag: ['a', 'b'],
+					file: new File(['hello'], 'report.txt', { type: 'text/plain' }),
+				},
+			});
+			const { res } = createMockV1Res();
+			const ctx = createMockV1Ctx();
+
+			await resolver(req, res, ctx);
+
+			const passedRequest = handlerFn.mock.calls[0][0] as Request;
+			const formData = await passedRequest.formData();
+			expect(formData.get('title')).toBe('Report');
+			expect(formData.getAll('tag')).toEqual(['a', 'b']);
+			const file = formData.get('file') as File;
+			expect(file.name).toBe('report.txt');
+			expect(await file.text()).toBe('hello');
+		});
+
+		it('should pass FormData bodies through', async () => {
+			const restApi = createMockRestApi();
+			const factory = createLegacyHandlerFactory(restApi);
+
+			const handlerFn = vi.fn().mockResolvedValue(factory.buildResponse(200, { ok: true }));
+			factory.createHandler('POST', '/api/upload', handlerFn);
+
+			const resolver = restApi._resolvers.get('POST /api/upload')!;
+			const body = new FormData();
+			body.append('title', 'Report');
+			const req = createMockV1Request({
+				url: 'http://localhost/api/upload',
+				method: 'POST',
+				body,
+			});
+			const { res } = createMockV1Res();
+			const ctx = createMockV1Ctx();
+
+			await resolver(req, res, ctx);
+
+			const passedRequest = handlerFn.mock.calls[0][0] as Request;
+			expect((await passedRequest.formData()).get('title')).toBe('Report');
+		});
+
 		it('should not include body for GET requests', async () => {
 			const restApi = createMockRestApi();
 			const factory = createLegacyHandlerFactory(restApi);
@@ -255,6 +390,26 @@ describe('legacyHandlerFactory', () => {
 			expect(collected).toContainEqual({ _type: 'body', value: '{"ok":true}' });
 		});
 
+		it('should convert binary responses without text decoding', async () => {
+			const restApi = createMockRestApi();
+			const factory = createLegacyHandlerFactory(restApi);
+
+			const bytes = new Uint8Array([0x89, 0xff, 0x00]);
+			const handlerFn = vi.fn().mockResolvedValue(factory.buildResponse(200, bytes));
+			factory.createHandler('GET', '/api/logo', handlerFn);
+
+			const resolver = restApi._resolvers.get('GET /api/logo')!;
+			const req = createMockV1Request({ url: 'http://localhost/api/logo', method: 'GET' });
+			const { res, collected } = createMockV1Res();
+
+			await resolver(req, res, createMockV1Ctx());
+
+			const body = collected.find((t) => (t as { _type: string })._type === 'body') as {
+				value: ArrayBuffer;
+			};
+			expect(new Uint8Array(body.value)).toEqual(bytes);
+		});
+
 		it('should copy response headers to legacy format', async () => {
 			const restApi = createMockRestApi();
 			const factory = createLegacyHandlerFactory(restApi);
@@ -309,6 +464,25 @@ describe('legacyHandlerFactory', () => {
 			expect(result).toEqual({ _type: 'networkError', message: 'Failed to fetch' });
 		});
 
+		it('should pass the supplied error message to res.networkError', async () => {
+			const restApi = createMockRestApi();
+			const factory = createLegacyHandlerFactory(restApi);
+
+			const handlerFn = vi
+				.fn()
+				.mockResolvedValue(factory.buildErrorResponse(new Error('read ECONNRESET')));
+			factory.createHandler('GET', '/api/fail', handlerFn);
+
+			const resolver = restApi._resolvers.get('GET /api/fail')!;
+			const req = createMockV1Request({ url: 'http://localhost/api/fail', method: 'GET' });
+			const { res } = createMockV1Res();
+			const ctx = createMockV1Ctx();
+
+			const result = await resolver(req, res, ctx);
+
+			expect(result).toEqual({ _type: 'networkError', message: 'read ECONNRESET' });
+		});
+
 		it('should pass legacy request headers to standard Request', async () => {
 			const restApi = createMockRestApi();
 			const factory = createLegacyHandlerFactory(restApi);
@@ -332,3 +506,34 @@ describe('legacyHandlerFactory', () => {
 		});
 	});
 });
+
+describe('setupFetchMock (legacy)', () => {
+	it('should wire the given instance into the runner hooks', async () => {
+		const server = { use: vi.fn(), resetHandlers: vi.fn(), listen: vi.fn(), close: vi.fn() };
+		const fetchMock = createFetchMock(createMockRestApi(), server);
+		const hooks: Partial<Record<keyof LifecycleHooks, () => unknown>> = {};
+		const runner: LifecycleHooks = {
+			beforeAll: (fn) => {
+				hooks.beforeAll = fn;
+			},
+			beforeEach: (fn) => {
+				hooks.beforeEach = fn;
+			},
+			afterEach: (fn) => {
+				hooks.afterEach = fn;
+			},
+			afterAll: (fn) => {
+				hooks.afterAll = fn;
+			},
+		};
+
+		expect(setupFetchMock({ runner, fetchMock })).toBe(fetchMock);
+
+		await hooks.beforeAll?.();
+		expect(server.listen).toHaveBeenCalled();
+		fetchMock.get('http://localhost').intercept({ path: '/pending' }).reply(200);
+		await expect(hooks.afterEach?.()).rejects.toThrow(/GET http:\/\/localhost\/pending/);
+		hooks.afterAll?.();
+		expect(server.close).toHaveBeenCalled();
+	});
+});
@@ -1,4 +1,6 @@
-import { type HandlerFactory, type HttpMethod } from './types';
+import { isRawBody, withDefaultContentType } from './body';
+import { getNetworkError, tagNetworkError } from './network-error';
+import { type HandlerFactory, type StandardHttpMethod } from './types';
 
 /** Duck-typed MSW v1 request object */
 interface LegacyReq {
@@ -18,7 +20,7 @@ type LegacyRes = {
 interface LegacyCtx {
 	status(code: number): unknown;
 	set(key: string, value: string): unknown;
-	body(text: string): unknown;
+	body(value: string | ArrayBuffer): unknown;
 }
 
 /** Duck-typed interface for MSW v1's `rest` API methods */
@@ -28,18 +30,35 @@ export type LegacyRestMethod = (
 ) => unknown;
 
 /** Duck-typed interface for MSW v1's `rest` namespace */
-export type LegacyRestApi = Record<Lowercase<HttpMethod> | 'all', LegacyRestMethod>;
+export type LegacyRestApi = Record<Lowercase<StandardHttpMethod> | 'all', LegacyRestMethod>;
+
+/**
+ * MSW v1 parses JSON bodies into values and multipart bodies into an object
+ * of fields. Multipart fields are rebuilt as `FormData` so `formData`
+ * matchers work; raw bodies pass through and other values are re-serialized.
+ */
+function convertV1Body(body: unknown, headers: Headers): BodyInit {
+	if (isRawBody(body)) return body;
+	const contentType = headers.get('content-type') ?? '';
+	if (/^multipart\/form-data\b/i.test(contentType) && typeof body === 'object' && body !== null) {
+		const formData = new FormData();
+		for (const [name, value] of Object.entries(body)) {
+			for (const item of Array.isArray(value) ? value : [value]) {
+				formData.append(name, item instanceof Blob ? item : String(item));
+			}
+		}
+		// The rebuilt body has a new boundary, which Request sets itself
+		headers.delete('content-type');
+		return formData;
+	}
+	return JSON.stringify(body);
+}
 
 /** Convert MSW v1 request object to standard Request */
 function convertV1Request(req: LegacyReq): Request {
 	const headers = new Headers(req.headers.all());
 	const hasBody = !['GET', 'HEAD'].includes(req.method);
-	const body =
-		hasBody && req.body != null
-			? typeof req.body === 'string'
-				? req.body
-				: JSON.stringify(req.body)
-			: undefined;
+	const body = hasBody && req.body != null ? convertV1Body(req.body, headers) : undefined;
 
 	return new Request(req.url.toString(), {
 		method: req.method,
@@ -48,6 +67,11 @@ function convertV1Request(req: LegacyReq): Request {
 	});
 }
 
+function isTextContentType(contentType: string | null): boolean {
+	if (!contentType) return true;
+	return /^text\/|[/+](json|xml)\b|javascript|x-www-form-urlencoded/i.test(contentType);
+}
+
 /** Convert standard Response to MSW v1 res(ctx...) format */
 async function convertToV1Response(
 	response: Response,
@@ -55,7 +79,8 @@ async function convertToV1Response(
 	ctx: LegacyCtx,
 ): Promise<unknown> {
 	if (response.type === 'error') {
-		return res.networkError('Failed to fetch');
+		// MSW v1 can only reject with a message, not a custom error instance
+		return res.networkError(getNetworkError(response)?.message ?? 'Failed to fetch');
 	}
 
 	const transformers: unknown[] = [ctx.status(response.status)];
@@ -64,9 +89,17 @@ async function convertToV1Response(
 		transformers.push(ctx.set(key, value));
 	});
 
-	const text = await response.text();
-	if (text) {
-		transformers.push(ctx.body(text));
+	if (isTextContentType(response.headers.get('content-type'))) {
+		const text = await response.text();
+		if (text) {
+			transformers.push(ctx.body(text));
+		}
+	} else {
+		// Binary bodies must not go through text decoding, which would corrupt them
+		const buffer = await response.arrayBuffer();
+		if (buffer.byteLength > 0) {
+			transformers.push(ctx.body(buffer));
+		}
 	}
 
 	return res(...transformers);
@@ -82,12 +115,14 @@ async function convertToV1Response(
  * @param rest - The `rest` object from `msw` v1 (e.g., `import { rest } from 'msw'`)
  */
 export function createLegacyHandlerFactory(rest: LegacyRestApi): HandlerFactory {
-	const methods: Record<HttpMethod, LegacyRestMethod> = {
+	const methods: Record<StandardHttpMethod, LegacyRestMethod> = {
 		GET: rest.get,
 		POST: rest.post,
 		PUT: rest.put,
 		DELETE: rest.delete,
 		PATCH: rest.patch,
+		HEAD: rest.head,
+		OPTIONS: rest.options,
 	};
 
 	const createResolver = (handlerFn: (request: Request) => Promise<Response | undefined>) => {
@@ -101,24 +136,42 @@ export function createLegacyHandlerFactory(rest: LegacyRestApi): HandlerFactory
 
 	return {
 		createHandler(method, urlPattern, handlerFn) {
-			return methods[method](urlPattern, createResolver(handlerFn));
+			const upper = method.toUpperCase();
+			const register = methods[upper as StandardHttpMethod];
+			if (register) {
+				return register(urlPattern, createResolver(handlerFn));
+			}
+			// Custom verbs (e.g. PROPFIND) have no `rest.*` shorthand — filter on `rest.all`
+			const resolver = createResolver(handlerFn);
+			return rest.all(urlPattern, async (req, res, ctx) => {
+				if (req.method.toUpperCase() !== upper) return undefined;
+				return resolver(req, res, ctx);
+			});
 		},
 
 		buildResponse(status, body, headers) {
 			if (body === null || body === undefined) {
 				return new Response(null, { status, headers });
 			}
+			if (isRawBody(body)) {
+				return new Response(body, { status, headers: withDefaultContentType(body, headers) });
+			}
 			const responseHeaders = new Headers(headers);
 			responseHeaders.set('content-type', 'application/json');
 			return new Response(JSON.stringify(body), { status, headers: responseHeaders });
 		},
 
+		buildStreamResponse(status, stream, headers) {
+			// MSW v1 has no streaming support: the body is buffered before it is sent
+			return new Response(stream, { status, headers });
+		},
+
 		createCatchAllHandler(handlerFn) {
 			return rest.all('*', createResolver(handlerFn));
 		},
 
-		buildErrorResponse() {
-			return Response.error();
+		buildErrorResponse(error) {
+			return tagNetworkError(Response.error(), error);
 		},
 	};
 }
@@ -1,5 +1,6 @@
 import { FetchMock } from './fetch-mock';
 import { createLegacyHandlerFactory, type LegacyRestApi } from './legacy-handler-factory';
+import { registerLifecycleHooks, type SetupFetchMockOptions } from './lifecycle';
 import { type SetupServerLike } from './types';
 
 export { FetchMock } from './fetch-mock';
@@ -31,5 +32,15 @@ export function createFetchMock(rest: LegacyRestApi, server?: SetupServerLike):
 	return new FetchMock();
 }
 
+/**
+ * Like `setupFetchMock` from `msw-fetch-mock/node`. This entry has no
+ * singleton, so pass the instance from `createFetchMock(rest, server)`.
+ */
+export function setupFetchMock(
+	options: SetupFetchMockOptions & { fetchMock: FetchMock },
+): FetchMock {
+	return registerLifecycleHooks(options.fetchMock, options);
+}
+
 export * from './exports';
 export type { SetupServerLike } from './types';
@@ -0,0 +1,242 @@
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { type LifecycleHooks, registerLifecycleHooks } from './lifecycle';
+import { createFetchMock } from './node';
+
+const API_BASE = 'http://localhost:8787';
+
+type Hook = (context?: unknown) => unknown;
+
+function createHooks() {
+	const registered: Partial<Record<keyof LifecycleHooks, Hook>> = {};
+	const hooks: LifecycleHooks = {
+		beforeAll: (fn) => {
+			registered.beforeAll = fn;
+		},
+		beforeEach: (fn) => {
+			registered.beforeEach = fn;
+		},
+		afterEach: (fn) => {
+			registered.afterEach = fn;
+		},
+		afterAll: (fn) => {
+			registered.afterAll = fn;
+		},
+		testName: (context) => (context as { name: string }).name,
+	};
+	return { hooks, registered };
+}
+
+describe('registerLifecycleHooks', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+	});
+
+	it('should activate, assert, reset and deactivate around tests', async () => {
+		const fm = createFetchMock();
+		const { hooks, registered } = createHooks();
+		registerLifecycleHooks(fm, { runner: hooks });
+
+		await registered.beforeAll?.();
+		try {
+			fm.get(API_BASE).intercept({ path: '/setup' }).reply(200).persist();
+			registered.beforeEach?.({ name: 'users > creates a user' });
+			fm.get(API_BASE).intercept({ path: '/api/users', method: 'POST' }).reply(201);
+			await fetch(`${API_BASE}/setup`);
+
+			await expect(registered.afterEach?.()).rejects.toThrow(
+				/POST http:\/\/localhost:8787\/api\/users\n {6}invoked 0 of 1 times\n {6}registered at .+ in "users > creates a user"/,
+			);
+			expect(fm.pendingInterceptors()).toEqual([]);
+
+			registered.beforeEach?.({ name: 'users > lists users' });
+			fm.get(API_BASE).intercept({ path: '/api/users' }).reply(200);
+			await fetch(`${API_BASE}/api/users`);
+			expect(fm.calls.lastCall()?.interceptor).toBeDefined();
+			await registered.afterEach?.();
+			expect(fm.calls.length).toBe(0);
+		} finally {
+			registered.afterAll?.();
+		}
+	});
+
+	it('should only tag interceptors registered inside a test', () => {
+		const fm = createFetchMock();
+		const { hooks, registered } = createHooks();
+		registerLifecycleHooks(fm, { runner: hooks });
+
+		fm.get(API_BASE).intercept({ path: '/before-all' }).reply(200);
+		registered.beforeEach?.({ name: 'first' });
+		fm.get(API_BASE).intercept({ path: '/in-test' }).reply(200);
+
+		expect(fm.pendingInterceptors().map((p) => p.test)).toEqual([undefined, 'first']);
+		fm.reset();
+	});
+
+	it('should only reset when assertPending is false', async () => {
+		const fm = createFetchMock();
+		const { hooks, registered } = createHooks();
+		registerLifecycleHooks(fm, { runner: hooks, assertPending: false });
+
+		fm.get(API_BASE).intercept({ path: '/unused' }).reply(200);
+
+		await expect(registered.afterEach?.()).resolves.toBeUndefined();
+		expect(fm.pendingInterceptors()).toEqual([]);
+	});
+
+	it('should pass tests that leave fromOpenApi() operations unused', async () => {
+		const fm = createFetchMock();
+		const { hooks, registered } = createHooks();
+		registerLifecycleHooks(fm, { runner: hooks });
+
+		await registered.beforeAll?.();
+		try {
+			registered.beforeEach?.({ name: 'lists users' });
+			fm.fromOpenApi(
+				{
+					openapi: '3.0.3',
+					paths: {
+						'/users': { get: { responses: { '200': { description: 'Users' } } } },
+						'/users/{id}': { get: { responses: { '200': { description: 'User' } } } },
+					},
+				},
+				{ origin: API_BASE },
+			);
+			await fetch(`${API_BASE}/users`);
+
+			await expect(registered.afterEach?.()).resolves.toBeUndefined();
+			expect(fm.calls.length).toBe(0);
+		} finally {
+			registered.afterAll?.();
+		}
+	});
+
+	it('should fail tests whose requests violated the contract', async () => {
+		const fm = createFetchMock();
+		const { hooks, registered } = createHooks();
+		registerLifecycleHooks(fm, { runner: hooks });
+
+		await registered.beforeAll?.();
+		try {
+			fm.enableContractValidation(
+				{
+					openapi: '3.0.3',
+					paths: {
+						'/users': { post: { responses: { '201': { description: 'Created' } } } },
+					},
+				},
+				{ origin: API_BASE },
+			);
+			registered.beforeEach?.({ name: 'creates a user' });
+			fm.get(API_BASE).intercept({ path: '/users', method: 'POST' }).reply(500);
+			await fetch(`${API_BASE}/users`, { method: 'POST' }).catch(() => {});
+
+			await expect(registered.afterEach?.()).rejects.toThrow(
+				'response status 500 is not documented, expected 201',
+			);
+		} finally {
+			registered.afterAll?.();
+		}
+	});
+
+	it('should write the call history of failing tests as HAR', async () => {
+		const dir = mkdtempSync(join(tmpdir(), 'msw-fetch-mock-'));
+		const fm = createFetchMock();
+		const { hooks, registered } = createHooks();
+		hooks.testFailed = (context) => (context as { failed: boolean }).failed;
+		registerLifecycleHooks(fm, { runner: hooks, harDir: dir });
+
+		await registered.beforeAll?.();
+		try {
+			registered.beforeEach?.({ name: 'users > lists users' });
+			fm.get(API_BASE).intercept({ path: '/api/users' }).reply(200, []);
+			await fetch(`${API_BASE}/api/users`);
+			await registered.afterEach?.({ failed: true });
+			registered.beforeEach?.({ name: 'passes' });
+			await registered.afterEach?.({ failed: false });
+
+			expect(readdirSync(dir)).toEqual(['users-lists-users.har']);
+			const har = JSON.parse(readFileSync(join(dir, 'users-lists-users.har'), 'utf8'));
+			expect(har.log.entries).toHaveLength(1);
+			expect(har.log.entries[0].request.url).toBe(`${API_BASE}/api/users`);
+			expect(har.log.entries[0].response.status).toBe(200);
+		} finally {
+			registered.afterAll?.();
+			rmSync(dir, { recursive: true, force: true });
+		}
+	});
+
+	it("should use Jest's global hooks and test name", () => {
+		const fm = createFetchMock();
+		const { hooks, registered } = createHooks();
+		vi.stubGlobal('beforeAll', hooks.beforeAll);
+		vi.stubGlobal('beforeEach', hooks.beforeEach);
+		vi.stubGlobal('afterEach', hooks.afterEach);
+		vi.stubGlobal('afterAll', hooks.afterAll);
+		vi.stubGlobal('expect', { getState: () => ({ currentTestName: 'jest test' }) });
+
+		registerLifecycleHooks(fm, { runner: 'jest' });
+		// jest-circus would wait for a `done` callback on hooks that declare a parameter
+		expect(registered.beforeEach?.length).toBe(0);
+		registered.beforeEach?.();
+		fm.get(API_BASE).intercept({ path: '/api/users' }).reply(200);
+
+		expect(fm.pendingInterceptors()[0].test).toBe('jest test');
+		fm.reset();
+	});
+
+	it('should give Jest a zero-arity async afterEach that dumps HAR on pending failures', async () => {
+		const dir = mkdtempSync(join(tmpdir(), 'msw-fetch-mock-'));
+		const fm = createFetchMock();
+		const { hooks, registered } = createHooks();
+		vi.stubGlobal('beforeAll', hooks.beforeAll);
+		vi.stubGlobal('beforeEach', hooks.beforeEach);
+		vi.stubGlobal('afterEach', hooks.afterEach);
+		vi.stubGlobal('afterAll', hooks.afterAll);
+		vi.stubGlobal('expect', { getState: () => ({ currentTestName: 'jest test' }) });
+
+		registerLifecycleHooks(fm, { runner: 'jest', harDir: dir });
+		try {
+			registered.beforeEach?.();
+			fm.get(API_BASE).intercept({ path: '/api/users' }).reply(200);
+
+			expect(registered.afterEach?.length).toBe(0);
+			await expect(registered.afterEach?.()).rejects.toThrow('invoked 0 of 1 times');
+			expect(readdirSync(dir)).toEqual(['jest-test.har']);
+		} finally {
+			rmSync(dir, { recursive: true, force: true });
+		}
+	});
+
+	it('should explain how to pass Vitest hooks when they are not global', () => {
+		vi.stubGlobal('beforeAll', undefined);
+
+		expect(() => registerLifecycleHooks(createFetchMock(), { runner: 'vitest' })).toThrow(
+			'Vitest hooks are not global',
+		);
+	});
+
+	it('should load the node:test hooks', () => {
+		const { hooks, registered } = createHooks();
+		const nodeTest = {
+			before: hooks.beforeAll,
+			beforeEach: hooks.beforeEach,
+			afterEach: hooks.afterEach,
+			after: hooks.afterAll,
+		};
+		const getBuiltinModule = vi.fn(() => nodeTest);
+		vi.stubGlobal('process', { getBuiltinModule });
+		const fm = createFetchMock();
+
+		registerLifecycleHooks(fm, { runner: 'node:test' });
+		registered.beforeEach?.({ name: 'creates a user', fullName: 'users > creates a user' });
+		fm.get(API_BASE).intercept({ path: '/api/users' }).reply(200);
+
+		expect(getBuiltinModule).toHaveBeenCalledWith('node:test');
+		expect(fm.pendingInterceptors()[0].test).toBe('users > creates a user');
+		fm.reset();
+	});
+});
@@ -0,0 +1,172 @@
+import { type FetchMock } from './fetch-mock';
+import { writeJsonFile } from './fixtures';
+import { type ActivateOptions, type PendingReportFormat } from './types';
+
+export type TestRunner = 'vitest' | 'jest' | 'node:test';
+
+/** Hook registration functions of a test runner, e.g. those exported by `vitest`. */
+export interface LifecycleHooks {
+	beforeAll(fn: () => unknown): void;
+	beforeEach(fn: (context?: unknown) => unknown): void;
+	afterEach(fn: (context?: unknown) => unknown): void;
+	afterAll(fn: () => unknown): void;
+	/** Name of the running test, given the context passed to the `beforeEach` callback. */
+	testName?(context: unknown): string | undefined;
+	/** Whether the test failed, given the context passed to the `afterEach` callback. */
+	testFailed?(context: unknown): boolean;
+}
+
+export interface SetupFetchMockOptions {
+	/** Runner whose hooks to use, or the hook functions themselves. */
+	runner: TestRunner | LifecycleHooks;
+	/**
+	 * Instance to wire up. Default: the entry point's `fetchMock` singleton.
+	 * Required by the browser and legacy entries, which have none.
+	 */
+	fetchMock?: FetchMock;
+	/** Options passed to `activate()`. */
+	activate?: ActivateOptions;
+	/**
+	 * Call `assertNoPendingInterceptors()` and `assertNoContractViolations()`
+	 * after each test. Default: true.
+	 */
+	assertPending?: boolean;
+	/** Report format for pending-interceptor failures. Default: `'text'`. */
+	format?: PendingReportFormat;
+	/**
+	 * Directory to write the call history of failing tests to, as
+	 * `<test name>.har`. Node.js only.
+	 */
+	harDir?: string;
+}
+
+type HookFn = (fn: (context?: unknown) => unknown) => void;
+
+interface RunnerGlobals {
+	beforeAll?: HookFn;
+	beforeEach?: HookFn;
+	afterEach?: HookFn;
+	afterAll?: HookFn;
+	expect?: { getState?(): { currentTestName?: string } };
+	process?: { getBuiltinModule?(id: string): unknown };
+}
+
+const runnerGlobals = globalThis as RunnerGlobals;
+
+/** Jest and Vitest (with `globals: true`) expose their hooks on `globalThis`. */
+function globalHooks(runner: 'vitest' | 'jest'): LifecycleHooks {
+	const { beforeAll, beforeEach, afterEach, afterAll } = runnerGlobals;
+	if (!beforeAll || !beforeEach || !afterEach || !afterAll) {
+		throw new Error(
+			runner === 'vitest'
+				? 'Vitest hooks are not global. Enable `globals: true`, use `msw-fetch-mock/vitest/setup`, ' +
+						"or pass `runner: { beforeAll, beforeEach, afterEach, afterAll }` imported from 'vitest'."
+				: 'Jest hooks are not available. Call setupFetchMock() from a test or `setupFilesAfterEnv` file.',
+		);
+	}
+	const testName = () => runnerGlobals.expect?.getState?.().currentTestName;
+	if (runner === 'vitest') {
+		return { beforeAll, beforeEach, afterEach, afterAll, testName, testFailed: vitestTestFailed };
+	}
+	// jest-circus treats hooks that declare a parameter as `done`-callback hooks,
+	// so Jest gets zero-arity callbacks. It does not expose the outcome to
+	// hooks either; only pending-interceptor failures count.
+	return {
+		beforeAll,
+		beforeEach: (fn) => beforeEach(() => fn()),
+		afterEach: (fn) => afterEach(() => fn()),
+		afterAll,
+		testName,
+	};
+}
+
+/** Vitest passes the test context, whose task already holds the result, to `afterEach`. */
+export function vitestTestFailed(context: unknown): boolean {
+	return (context as { task?: { result?: { state?: string } } })?.task?.result?.state === 'fail';
+}
+
+interface NodeTestModule {
+	before: HookFn;
+	beforeEach: HookFn;
+	afterEach: HookFn;
+	after: HookFn;
+}
+
+function nodeTestHooks(): LifecycleHooks {
+	const nodeTest = runnerGlobals.process?.getBuiltinModule?.('node:test') as
+		| NodeTestModule
+		| undefined;
+	if (!nodeTest) {
+		throw new Error(
+			'node:test hooks could not be loaded (Node.js >= 20.16 required). ' +
+				"Pass `runner: { beforeAll: before, beforeEach, afterEach, afterAll: after }` from 'node:test'.",
+		);
+	}
+	return {
+		beforeAll: nodeTest.before,
+		beforeEach: nodeTest.beforeEach,
+		afterEach: nodeTest.afterEach,
+		afterAll: nodeTest.after,
+		testName: (context) => {
+			const test = context as { fullName?: string; name?: string } | undefined;
+			return test?.fullName ?? test?.name;
+		},
+		testFailed: (context) => (context as { passed?: boolean } | undefined)?.passed === false,
+	};
+}
+
+function harPath(dir: string, testName = ''): string {
+	const file = testName.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || 'fetch-mock';
+	return `${dir.replace(/[\\/]+$/, '')}/${file}.har`;
+}
+
+function resolveHooks(runner: TestRunner | LifecycleHooks): LifecycleHooks {
+	if (typeof runner === 'object') return runner;
+	if (runner === 'node:test') return nodeTestHooks();
+	return globalHooks(runner);
+}
+
+/**
+ * Registers hooks that activate `fetchMock` before all tests, assert and
+ * reset it after each one, and deactivate it after all tests. Interceptors
+ * registered during a test are tagged with its name, so pending-interceptor
+ * failures point at the test that registered them.
+ */
+export function registerLifecycleHooks(
+	fetchMock: FetchMock,
+	options: SetupFetchMockOptions,
+): FetchMock {
+	const hooks = resolveHooks(options.runner);
+	const assertPending = options.assertPending ?? true;
+
+	hooks.beforeAll(() => fetchMock.activate(options.activate));
+	hooks.beforeEach((context) => {
+		fetchMock._currentTest = hooks.testName?.(context);
+	});
+	hooks.afterEach(async (context) => {
+		let pendingError: unknown;
+		try {
+			if (assertPending) {
+				// Violations explain why an interceptor was left pending, so they come first
+				fetchMock.assertNoContractViolations();
+				fetchMock.assertNoPendingInterceptors({ format: options.format });
+			}
+		} catch (error) {
+			pendingError = error;
+		}
+		try {
+			if (options.harDir && (pendingError || hooks.testFailed?.(context))) {
+				await writeJsonFile(
+					harPath(options.harDir, fetchMock._currentTest),
+					fetchMock.calls.toHar(),
+				);
+			}
+		} finally {
+			fetchMock._currentTest = undefined;
+			fetchMock.reset();
+		}
+		if (pendingError) throw pendingError;
+	});
+	hooks.afterAll(() => fetchMock.deactivate());
+	return fetchMock;
+}
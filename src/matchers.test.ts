@@ -1,19 +1,40 @@
 import { describe, expect, it } from 'vitest';
 import {
+	anyNumber,
+	anyString,
+	anything,
+	createReplyRequest,
+	diffBody,
+	diffFormData,
+	diffHeaders,
+	diffJson,
+	diffQuery,
 	escapeRegExp,
+	extractPathParams,
+	isPathTemplate,
 	isPending,
 	matchBody,
 	matchesValue,
+	matchFormData,
 	matchHeaders,
+	matchMethod,
 	matchPath,
+	matchPathTemplate,
 	matchQuery,
+	parseFormData,
+	parseQueryMatcher,
+	partial,
 	recordCall,
+	relativeToOrigin,
+	splitPathQuery,
+	stringMatching,
 } from './matchers';
 import { MockCallHistory } from './mock-call-history';
 import { type PendingInterceptor } from './types';
 
 function createPending(overrides: Partial<PendingInterceptor> = {}): PendingInterceptor {
 	return {
+		id: 1,
 		origin: 'http://localhost',
 		path: '/test',
 		method: 'GET',
@@ -113,12 +134,178 @@ describe('matchPath', () => {
 		expect(matchPath(request, 'http://localhost/prefix', /^\/api/)).toBe(true);
 	});
 
+	it('should match string path templates', () => {
+		const request = new Request('http://localhost/prefix/users/42');
+		expect(matchPath(request, 'http://localhost/prefix', '/users/:id')).toBe(true);
+		expect(matchPath(request, 'http://localhost/prefix', '/posts/:id')).toBe(false);
+	});
+
+	it('should match path templates with a query string', () => {
+		const request = new Request('http://localhost/users/42?tab=posts');
+		expect(matchPath(request, 'http://localhost', '/users/:id?tab=posts')).toBe(true);
+		expect(matchPath(request, 'http://localhost', '/users/:id?tab=likes')).toBe(false);
+	});
+
+	it('should match repeated keys in an embedded query string', () => {
+		const request = new Request('http://localhost/api?tag=a&tag=b');
+		expect(matchPath(request, 'http://localhost', '/api?tag=a&tag=b')).toBe(true);
+		expect(matchPath(request, 'http://localhost', '/api?tag=a')).toBe(false);
+	});
+
+	it('should allow extra params in an embedded query string when not strict', () => {
+		const request = new Request('http://localhost/api?page=1&extra=x');
+		expect(matchPath(request, 'http://localhost', '/api?page=1')).toBe(false);
+		expect(matchPath(request, 'http://localhost', '/api?page=1', false)).toBe(true);
+	});
+
 	it('should include query string in path matching', () => {
 		const request = new Request('http://localhost/api?q=1');
 		expect(matchPath(request, 'http://localhost', /\/api\?q=1/)).toBe(true);
 	});
 });
 
+describe('relativeToOrigin', () => {
+	it('should strip the origin path prefix and keep the query string', () => {
+		const request = new Request('http://localhost/prefix/api/users?page=2');
+		expect(relativeToOrigin(request, 'http://localhost/prefix/')).toBe('/api/users?page=2');
+	});
+});
+
+describe('splitPathQuery', () => {
+	it('should split the query string from the pathname', () => {
+		expect(splitPathQuery('/api?limit=10')).toEqual(['/api', 'limit=10']);
+		expect(splitPathQuery('/api')).toEqual(['/api', undefined]);
+	});
+
+	it('should keep optional param markers in the pathname', () => {
+		expect(splitPathQuery('/users/:id?')).toEqual(['/users/:id?', undefined]);
+		expect(splitPathQuery('/users/:id?/posts')).toEqual(['/users/:id?/posts', undefined]);
+		expect(splitPathQuery('/users/:id?tab=posts')).toEqual(['/users/:id', 'tab=posts']);
+	});
+});
+
+describe('isPathTemplate', () => {
+	it('should detect params and wildcards', () => {
+		expect(isPathTemplate('/users/:id')).toBe(true);
+		expect(isPathTemplate('/files/*')).toBe(true);
+		expect(isPathTemplate('/users')).toBe(false);
+	});
+
+	it('should not treat colons inside a segment as params', () => {
+		expect(isPathTemplate('/v1/projects:batchGet')).toBe(false);
+	});
+});
+
+describe('matchPathTemplate', () => {
+	it('should extract named params', () => {
+		expect(matchPathTemplate('/users/42/posts/7', '/users/:id/posts/:postId')).toEqual({
+			id: '42',
+			postId: '7',
+		});
+	});
+
+	it('should not match across segments', () => {
+		expect(matchPathTemplate('/users/42/extra', '/users/:id')).toBeNull();
+	});
+
+	it('should support optional params', () => {
+		expect(matchPathTemplate('/users/42/posts', '/users/:id/posts/:postId?')).toEqual({ id: '42' });
+		expect(matchPathTemplate('/users/42/posts/7', '/users/:id/posts/:postId?')).toEqual({
+			id: '42',
+			postId: '7',
+		});
+	});
+
+	it('should expose wildcards as numbered params', () => {
+		expect(matchPathTemplate('/files/a/b.txt', '/files/*')).toEqual({ '0': 'a/b.txt' });
+	});
+
+	it('should decode param values', () => {
+		expect(matchPathTemplate('/tags/a%20b', '/tags/:tag')).toEqual({ tag: 'a b' });
+	});
+
+	it('should match the end of the pathname with suffix', () => {
+		expect(matchPathTemplate('/v2/users/1', '/users/:id', { suffix: true })).toEqual({ id: '1' });
+		expect(matchPathTemplate('/v2/users/1', '/users/:id')).toBeNull();
+	});
+});
+
+describe('extractPathParams', () => {
+	it('should return named groups of a RegExp path', () => {
+		expect(
+			extractPathParams('/users/42/posts/7', /^\/users\/(?<id>\d+)\/posts\/(?<postId>\d+)/),
+		).toEqual({ id: '42', postId: '7' });
+	});
+
+	it('should omit groups that did not participate in the match', () => {
+		expect(extractPathParams('/users', /^\/users(?:\/(?<id>\d+))?/)).toEqual({});
+	});
+
+	it('should return params of a string template', () => {
+		expect(extractPathParams('/users/42?tab=posts', '/users/:id')).toEqual({ id: '42' });
+	});
+
+	it('should return no params for plain string and function paths', () => {
+		expect(extractPathParams('/users/42', '/users/42')).toEqual({});
+		expect(extractPathParams('/users/42', () => true)).toEqual({});
+	});
+});
+
+describe('createReplyRequest', () => {
+	it('should expose url, search params, headers and parsed JSON', () => {
+		const request = new Request('http://localhost/api?q=1', {
+			method: 'POST',
+			headers: { 'X-Id': 'abc' },
+		});
+		const req = createReplyRequest(request, '{"a":1}', { id: '1' });
+
+		expect(req.request).toBe(request);
+		expect(req.method).toBe('POST');
+		expect(req.url.pathname).toBe('/api');
+		expect(req.searchParams.get('q')).toBe('1');
+		expect(req.headers.get('x-id')).toBe('abc');
+		expect(req.body).toBe('{"a":1}');
+		expect(req.json).toEqual({ a: 1 });
+		expect(req.params).toEqual({ id: '1' });
+	});
+
+	it('should leave json undefined for empty or invalid bodies', () => {
+		const request = new Request('http://localhost/api');
+		expect(createReplyRequest(request, null, {}).json).toBeUndefined();
+		expect(createReplyRequest(request, 'not json', {}).json).toBeUndefined();
+	});
+});
+
+describe('matchMethod', () => {
+	it('should default to GET', () => {
+		expect(matchMethod(new Request('http://localhost/api'))).toBe(true);
+		expect(matchMethod(new Request('http://localhost/api', { method: 'POST' }))).toBe(false);
+	});
+
+	it('should match method strings case-insensitively', () => {
+		const request = new Request('http://localhost/api', { method: 'PROPFIND' });
+		expect(matchMethod(request, 'propfind')).toBe(true);
+		expect(matchMethod(request, 'REPORT')).toBe(false);
+	});
+
+	it('should match any method in an array', () => {
+		const request = new Request('http://localhost/api', { method: 'HEAD' });
+		expect(matchMethod(request, ['GET', 'HEAD'])).toBe(true);
+		expect(matchMethod(request, ['GET', 'POST'])).toBe(false);
+	});
+
+	it('should match with RegExp', () => {
+		const request = new Request('http://localhost/api', { method: 'PATCH' });
+		expect(matchMethod(request, /^P/)).toBe(true);
+		expect(matchMethod(request, /^G/)).toBe(false);
+	});
+
+	it('should match with predicate', () => {
+		const request = new Request('http://localhost/api', { method: 'OPTIONS' });
+		expect(matchMethod(request, (m) => m === 'OPTIONS')).toBe(true);
+	});
+});
+
 describe('matchQuery', () => {
 	it('should return true when no query criteria', () => {
 		const request = new Request('http://localhost/api');
@@ -144,6 +331,53 @@ describe('matchQuery', () => {
 		const request = new Request('http://localhost/api?page=2');
 		expect(matchQuery(request, { page: '1' })).toBe(false);
 	});
+
+	it('should match values with RegExp and predicates', () => {
+		const request = new Request('http://localhost/api?page=2&q=hello');
+		expect(matchQuery(request, { page: /^\d+$/, q: (v) => v.startsWith('he') })).toBe(true);
+		expect(matchQuery(request, { page: /^[a-z]+$/ })).toBe(false);
+	});
+
+	it('should match every value of a repeated key in order', () => {
+		const request = new Request('http://localhost/api?tag=a&tag=b');
+		expect(matchQuery(request, { tag: ['a', 'b'] })).toBe(true);
+		expect(matchQuery(request, { tag: ['a', /^b/] })).toBe(true);
+		expect(matchQuery(request, { tag: ['b', 'a'] })).toBe(false);
+		expect(matchQuery(request, { tag: ['a'] })).toBe(false);
+	});
+
+	it('should assert a param is absent with null', () => {
+		expect(matchQuery(new Request('http://localhost/api?page=1'), { debug: null })).toBe(true);
+		expect(matchQuery(new Request('http://localhost/api?debug=1'), { debug: null })).toBe(false);
+	});
+
+	it('should ignore extra params unless strict', () => {
+		const request = new Request('http://localhost/api?page=1&extra=x');
+		expect(matchQuery(request, { page: '1' })).toBe(true);
+		expect(matchQuery(request, { page: '1' }, true)).toBe(false);
+		expect(matchQuery(request, { page: '1', extra: /.*/ }, true)).toBe(true);
+	});
+
+	it('should not treat inherited property names as listed params when strict', () => {
+		const request = new Request('http://localhost/api?page=1&constructor=x&toString=y');
+		expect(matchQuery(request, { page: '1' }, true)).toBe(false);
+		expect(diffQuery(request, { page: '1' }, true)).toEqual([
+			'query.constructor: unexpected param with "x"',
+			'query.toString: unexpected param with "y"',
+		]);
+	});
+
+	it('should reject repeated keys for single-value matchers when strict', () => {
+		const request = new Request('http://localhost/api?tag=a&tag=b');
+		expect(matchQuery(request, { tag: 'a' })).toBe(true);
+		expect(matchQuery(request, { tag: 'a' }, true)).toBe(false);
+	});
+});
+
+describe('parseQueryMatcher', () => {
+	it('should turn repeated keys into arrays', () => {
+		expect(parseQueryMatcher('page=1&tag=a&tag=b')).toEqual({ page: '1', tag: ['a', 'b'] });
+	});
 });
 
 describe('matchHeaders', () => {
@@ -216,6 +450,196 @@ describe('matchBody', () => {
 	});
 });
 
+describe('matchBody (JSON)', () => {
+	it('should deep-equal objects regardless of key order', () => {
+		expect(matchBody('{"b":2,"a":{"c":[1,2]}}', { a: { c: [1, 2] }, b: 2 })).toBe(true);
+	});
+
+	it('should reject extra keys in exact mode', () => {
+		expect(matchBody('{"a":1,"b":2}', { a: 1 })).toBe(false);
+	});
+
+	it('should ignore extra keys at any depth in partial mode', () => {
+		expect(matchBody('{"a":{"b":1,"c":2},"d":3}', partial({ a: { b: 1 } }))).toBe(true);
+		expect(matchBody('{"a":{"b":2}}', partial({ a: { b: 1 } }))).toBe(false);
+	});
+
+	it('should match arrays element-wise', () => {
+		expect(matchBody('[1,2]', [1, 2])).toBe(true);
+		expect(matchBody('[1,2,3]', [1, 2])).toBe(false);
+	});
+
+	it('should support asymmetric matchers and RegExps inside fields', () => {
+		const body = '{"id":"abc","count":3,"email":"a@example.com","meta":{}}';
+		expect(
+			matchBody(body, {
+				id: anyString(),
+				count: anyNumber(),
+				email: /@example\.com$/,
+				meta: anything(),
+			}),
+		).toBe(true);
+		expect(matchBody('{"id":1}', { id: anyString() })).toBe(false);
+	});
+
+	it('should support Vitest asymmetric matchers', () => {
+		expect(
+			matchBody('{"id":1,"tags":["a"]}', { id: expect.any(Number), tags: expect.any(Array) }),
+		).toBe(true);
+	});
+
+	it('should not match empty or non-JSON bodies', () => {
+		expect(matchBody(null, { a: 1 })).toBe(false);
+		expect(matchBody('not json', { a: 1 })).toBe(false);
+	});
+});
+
+describe('parseFormData', () => {
+	it('should parse URL-encoded and multipart bodies', async () => {
+		const encoded = new TextEncoder().encode('a=1').buffer as ArrayBuffer;
+		expect((await parseFormData(encoded, 'application/x-www-form-urlencoded'))?.get('a')).toBe('1');
+
+		const form = new FormData();
+		form.append('b', '2');
+		const request = new Request('http://localhost', { method: 'POST', body: form });
+		const contentType = request.headers.get('content-type');
+		expect((await parseFormData(await request.arrayBuffer(), contentType))?.get('b')).toBe('2');
+	});
+
+	it('should return null for empty, non-form or malformed bodies', async () => {
+		const body = new TextEncoder().encode('x').buffer as ArrayBuffer;
+		expect(await parseFormData(null, 'application/x-www-form-urlencoded')).toBeNull();
+		expect(await parseFormData(body, 'application/json')).toBeNull();
+		expect(await parseFormData(body, 'multipart/form-data; boundary=abc')).toBeNull();
+	});
+});
+
+describe('matchFormData', () => {
+	const form = new FormData();
+	form.append('title', 'Report');
+	form.append('tag', 'a');
+	form.append('tag', 'b');
+	form.append('file', new File(['hello'], 'hello.txt', { type: 'text/plain' }));
+
+	it('should match text fields with strings, RegExps and predicates', () => {
+		expect(matchFormData(form, { title: 'Report' })).toBe(true);
+		expect(matchFormData(form, { title: /^Rep/, tag: (v) => v === 'a' })).toBe(true);
+		expect(matchFormData(form, { title: 'Other' })).toBe(false);
+	});
+
+	it('should match files by name, type and size', () => {
+		expect(matchFormData(form, { file: { name: 'hello.txt', type: 'text/plain', size: 5 } })).toBe(
+			true,
+		);
+		expect(matchFormData(form, { file: { name: /\.txt$/, size: (n) => n < 10 } })).toBe(true);
+		expect(matchFormData(form, { file: { size: 6 } })).toBe(false);
+	});
+
+	it('should not match text matchers against files or file matchers against text', () => {
+		expect(matchFormData(form, { file: 'hello.txt' })).toBe(false);
+		expect(matchFormData(form, { title: { name: 'Report' } })).toBe(false);
+	});
+
+	it('should match repeated fields with arrays and absent fields with null', () => {
+		expect(matchFormData(form, { tag: ['a', 'b'], missing: null })).toBe(true);
+		expect(matchFormData(form, { tag: ['a'] })).toBe(false);
+		expect(matchFormData(form, { title: null })).toBe(false);
+	});
+
+	it('should not match when the body is not a form', () => {
+		expect(matchFormData(null, { title: 'Report' })).toBe(false);
+		expect(matchFormData(null, undefined)).toBe(true);
+	});
+});
+
+describe('diffJson', () => {
+	it('should return no differences for equal values', () => {
+		expect(diffJson({ a: [1] }, { a: [1] })).toEqual([]);
+	});
+
+	it('should describe each difference with its path', () => {
+		expect(
+			diffJson(
+				{ user: { name: 'Bob', role: 'admin' }, tags: ['x'] },
+				{ user: { name: 'Alice', id: anyNumber() }, tags: ['x', 'y'] },
+			),
+		).toEqual([
+			'$.user.name: expected "Alice", received "Bob"',
+			'$.user.id: missing, expected anyNumber()',
+			'$.user.role: unexpected key with "admin"',
+			'$.tags: expected 2 items, received 1',
+		]);
+	});
+
+	it('should only compare own keys', () => {
+		expect(diffJson({ constructor: 1 }, {})).toEqual(['$.constructor: unexpected key with 1']);
+		expect(diffJson({}, { toString: 'x' })).toEqual(['$.toString: missing, expected "x"']);
+	});
+
+	it('should describe matchers in nested values', () => {
+		expect(diffJson('abc', stringMatching(/^x/))).toEqual([
+			'$: expected stringMatching(/^x/), received "abc"',
+		]);
+		expect(diffJson({ a: { b: 2 } }, partial({ a: { b: 1 } }))).toEqual([
+			'$.a.b: expected 1, received 2',
+		]);
+	});
+});
+
+describe('diffQuery / diffHeaders', () => {
+	const request = new Request('http://localhost/api?page=1&tag=a&tag=b', {
+		headers: { 'x-api-key': 'secret' },
+	});
+
+	it('should describe each failing query param', () => {
+		expect(diffQuery(request, { page: '1', tag: ['a', 'b'] })).toEqual([]);
+		expect(diffQuery(request, { page: '2', sort: /name/, tag: null })).toEqual([
+			'query.page: expected "2", received "1"',
+			'query.sort: expected /name/, received nothing',
+			'query.tag: expected absent, received "a", "b"',
+		]);
+	});
+
+	it('should describe unexpected params with strict matching', () => {
+		expect(diffQuery(request, { page: '1' }, true)).toEqual([
+			'query.tag: unexpected param with "a", "b"',
+		]);
+	});
+
+	it('should describe each failing header', () => {
+		expect(diffHeaders(request, { 'x-api-key': 'secret' })).toEqual([]);
+		expect(
+			diffHeaders(request, { 'x-api-key': (v) => v === 'other', authorization: 'Bearer' }),
+		).toEqual([
+			'headers.x-api-key: expected <function>, received "secret"',
+			'headers.authorization: expected "Bearer", received nothing',
+		]);
+	});
+});
+
+describe('diffBody / diffFormData', () => {
+	it('should describe text body mismatches in a single line', () => {
+		expect(diffBody('hello', /^hel/)).toEqual([]);
+		expect(diffBody('hello', 'world')).toEqual(['body: expected "world", received "hello"']);
+		expect(diffBody(null, /x/)).toEqual(['body: expected /x/, received an empty body']);
+	});
+
+	it('should describe each failing form field', () => {
+		const form = new FormData();
+		form.append('title', 'Report');
+		form.append('file', new File(['hello'], 'hello.txt'));
+
+		expect(diffFormData(form, { title: 'Report' })).toEqual([]);
+		expect(diffFormData(form, { title: 'Other', file: { size: 6 } })).toEqual([
+			'formData.title: expected "Other", received "Report"',
+			'formData.file: expected {"size":6}, received file "hello.txt" (5 bytes)',
+		]);
+		expect(diffFormData(null, { title: 'Report' })).toEqual([
+			'formData: expected a form body, received none',
+		]);
+	});
+});
+
 describe('recordCall', () => {
 	it('should record request details into call history', () => {
 		const history = new MockCallHistory();
@@ -240,6 +664,13 @@ describe('recordCall', () => {
 		expect(call.headers['content-type']).toBe('application/json');
 	});
 
+	it('should record path params', () => {
+		const history = new MockCallHistory();
+		recordCall(history, new Request('http://localhost/users/1'), null, { id: '1' });
+
+		expect(history.firstCall()?.params).toEqual({ id: '1' });
+	});
+
 	it('should record null body', () => {
 		const history = new MockCallHistory();
 		const request = new Request('http://localhost/api');
@@ -1,16 +1,41 @@
-import { type MockCallHistory } from './mock-call-history';
+import { encodeBody } from './body';
 import {
+	type MockCallHistory,
+	type MockCallHistoryLog,
+	type MockCallHistoryLogData,
+} from './mock-call-history';
+import { isBufferedResponse, isStreamResponse } from './stream';
+import {
+	type AsymmetricMatcher,
 	type BodyMatcher,
+	type FormFieldMatcher,
+	type FormFileMatcher,
 	type HeaderValueMatcher,
+	type InterceptOptions,
+	type InterceptorMatchers,
+	type JsonMatcher,
+	type MethodMatcher,
 	type PathMatcher,
 	type PendingInterceptor,
+	type QueryValueMatcher,
+	type ReplyRequest,
 } from './types';
 
 export function isPending(p: PendingInterceptor): boolean {
+	if (p.optional) return false;
 	if (p.persist) return p.timesInvoked === 0;
 	return p.timesInvoked < p.times;
 }
 
+/**
+ * Returns true when the interceptor no longer matches requests. Sequences
+ * that repeat or error once exhausted keep matching after their last step.
+ */
+export function isExhausted(p: PendingInterceptor): boolean {
+	if (p.persist || p.timesInvoked < p.times) return false;
+	return p.sequence === undefined || p.sequence.whenExhausted === 'fallthrough';
+}
+
 export function escapeRegExp(str: string): string {
 	return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
@@ -24,7 +49,123 @@ export function matchesValue(
 	return matcher(value);
 }
 
-export function matchPath(request: Request, origin: string, pathMatcher: PathMatcher): boolean {
+/**
+ * Returns the request path (including query string) relative to the path
+ * prefix of `origin`, e.g. `/posts?page=1` for origin `http://host/api`.
+ */
+export function relativeToOrigin(request: Request, origin: string): string {
+	const url = new URL(request.url);
+	const originPrefix = new URL(origin).pathname.replace(/\/$/, '');
+	const fullPath = url.pathname + url.search;
+	return fullPath.startsWith(originPrefix) ? fullPath.slice(originPrefix.length) : fullPath;
+}
+
+const PARAM_NAME = '[A-Za-z_$][\\w$]*';
+const TEMPLATE_TOKEN_SOURCE = `(/):(${PARAM_NAME})(\\?(?=/|$))?|\\*`;
+const TEMPLATE_TOKEN = new RegExp(TEMPLATE_TOKEN_SOURCE, 'g');
+const HAS_TEMPLATE_TOKEN = new RegExp(TEMPLATE_TOKEN_SOURCE);
+// A `?` separates the query string unless it marks an optional `/:param?` segment
+const QUERY_SEPARATOR = new RegExp(`\\?(?!/|$)|(?<!/:${PARAM_NAME})\\?`);
+
+/**
+ * Splits a string path into its pathname and query string, keeping the `?`
+ * of optional template params (`/users/:id?`) in the pathname.
+ */
+export function splitPathQuery(path: string): [pathname: string, query: string | undefined] {
+	const match = QUERY_SEPARATOR.exec(path);
+	if (!match) return [path, undefined];
+	return [path.slice(0, match.index), path.slice(match.index + 1)];
+}
+
+/** Returns true when a string path uses `:param` or `*` template syntax. */
+export function isPathTemplate(path: string): boolean {
+	return HAS_TEMPLATE_TOKEN.test(path);
+}
+
+function decodeParam(value: string): string {
+	try {
+		return decodeURIComponent(value);
+	} catch {
+		return value;
+	}
+}
+
+/**
+ * Matches a pathname against a template such as `/users/:id/posts/:postId?`
+ * or `/files/*`. Returns the extracted params, or `null` on mismatch.
+ * Wildcards are exposed as numbered params (`'0'`, `'1'`, ...).
+ *
+ * With `suffix`, the template may match the end of the pathname only.
+ */
+export function matchPathTemplate(
+	pathname: string,
+	template: string,
+	options: { suffix?: boolean } = {},
+): Record<string, string> | null {
+	const keys: string[] = [];
+	let wildcards = 0;
+	let source = '';
+	let lastIndex = 0;
+	for (const match of template.matchAll(TEMPLATE_TOKEN)) {
+		const [token, slash, name, optional] = match;
+		source += escapeRegExp(template.slice(lastIndex, match.index));
+		lastIndex = match.index + token.length;
+		if (token === '*') {
+			keys.push(String(wildcards++));
+			source += '(.*)';
+		} else {
+			keys.push(name);
+			source += optional ? `(?:${slash}([^/]+))?` : `${slash}([^/]+)`;
+		}
+	}
+	source += escapeRegExp(template.slice(lastIndex));
+
+	const result = new RegExp(`${options.suffix ? '' : '^'}${source}$`).exec(pathname);
+	if (!result) return null;
+	const params: Record<string, string> = {};
+	keys.forEach((key, i) => {
+		const value = result[i + 1];
+		if (value !== undefined) params[key] = decodeParam(value);
+	});
+	return params;
+}
+
+/**
+ * Extracts path params from `path` (pathname plus query string): named
+ * capture groups of a RegExp matcher, or the params of a string template.
+ */
+export function extractPathParams(
+	path: string,
+	pathMatcher: PathMatcher,
+	options: { suffix?: boolean } = {},
+): Record<string, string> {
+	if (typeof pathMatcher === 'string') {
+		const [template] = splitPathQuery(pathMatcher);
+		if (!isPathTemplate(template)) return {};
+		return matchPathTemplate(path.split('?')[0], template, options) ?? {};
+	}
+	if (!(pathMatcher instanceof RegExp)) return {};
+	const params: Record<string, string> = {};
+	const groups = new RegExp(pathMatcher.source, pathMatcher.flags.replace('g', '')).exec(
+		path,
+	)?.groups;
+	for (const [key, value] of Object.entries(groups ?? {})) {
+		if (value !== undefined) params[key] = value;
+	}
+	return params;
+}
+
+/**
+ * Matches the request against `origin` and `pathMatcher`. A query string
+ * embedded in a string path (`/users?page=1`) is matched strictly unless
+ * `strictQuery` is `false`.
+ */
+export function matchPath(
+	request: Request,
+	origin: string,
+	pathMatcher: PathMatcher,
+	strictQuery = true,
+): boolean {
 	const url = new URL(request.url);
 	const originUrl = new URL(origin);
 
@@ -32,56 +173,117 @@ export function matchPath(request: Request, origin: string, pathMatcher: PathMat
 	if (url.origin !== originUrl.origin) return false;
 
 	const originPrefix = originUrl.pathname.replace(/\/$/, '');
-	const fullPath = url.pathname + url.search;
-	const relativePath = fullPath.startsWith(originPrefix)
-		? fullPath.slice(originPrefix.length)
-		: fullPath;
+	const relativePath = relativeToOrigin(request, origin);
 
 	if (typeof pathMatcher === 'string') {
 		const relativePathname = url.pathname.startsWith(originPrefix)
 			? url.pathname.slice(originPrefix.length)
 			: url.pathname;
 
-		// Check if pathMatcher includes query string
-		if (pathMatcher.includes('?')) {
-			const [matcherPath, matcherQuery] = pathMatcher.split('?');
+		const [matcherPath, matcherQuery] = splitPathQuery(pathMatcher);
+		const pathnameMatches = isPathTemplate(matcherPath)
+			? matchPathTemplate(relativePathname, matcherPath) !== null
+			: relativePathname === matcherPath;
 
-			// pathname must match
-			if (relativePathname !== matcherPath) return false;
-
-			// Parse query params from pathMatcher and request
-			const matcherParams = new URLSearchParams(matcherQuery);
-			const requestParams = url.searchParams;
+		// Check if pathMatcher includes query string
+		if (matcherQuery !== undefined) {
+			return pathnameMatches && matchQuery(request, parseQueryMatcher(matcherQuery), strictQuery);
+		}
 
-			// Check if all matcher params exist in request with same values
-			for (const [key, value] of matcherParams.entries()) {
-				if (requestParams.get(key) !== value) return false;
-			}
+		// String path without query string: match against pathname only
+		return pathnameMatches;
+	}
 
-			// Check if request has same number of params (no extra params)
-			if (Array.from(requestParams.keys()).length !== Array.from(matcherParams.keys()).length) {
-				return false;
-			}
+	return matchesValue(relativePath, pathMatcher);
+}
 
-			return true;
-		}
+export function matchMethod(request: Request, methodMatcher: MethodMatcher = 'GET'): boolean {
+	const method = request.method.toUpperCase();
+	if (Array.isArray(methodMatcher)) {
+		return methodMatcher.some((m) => m.toUpperCase() === method);
+	}
+	if (typeof methodMatcher === 'string') return methodMatcher.toUpperCase() === method;
+	return matchesValue(method, methodMatcher);
+}
 
-		// String path without query string: exact match against pathname only
-		return relativePathname === pathMatcher;
+/** Converts a query string into a query matcher; repeated keys become arrays. */
+export function parseQueryMatcher(queryString: string): Record<string, QueryValueMatcher> {
+	const query: Record<string, QueryValueMatcher> = {};
+	const params = new URLSearchParams(queryString);
+	for (const key of new Set(params.keys())) {
+		const values = params.getAll(key);
+		query[key] = values.length === 1 ? values[0] : values;
 	}
+	return query;
+}
 
-	return matchesValue(relativePath, pathMatcher);
+function matchQueryValue(values: string[], matcher: QueryValueMatcher): boolean {
+	if (matcher === null) return values.length === 0;
+	if (Array.isArray(matcher)) {
+		return values.length === matcher.length && matcher.every((m, i) => matchesValue(values[i], m));
+	}
+	return values.length > 0 && matchesValue(values[0], matcher);
 }
 
-export function matchQuery(request: Request, query?: Record<string, string>): boolean {
+/**
+ * Matches query parameters. A `null` matcher asserts the param is absent and
+ * an array matches every value of a repeated key, in order. With `strict`,
+ * the request may not carry params that are not listed, and single-value
+ * matchers reject repeated keys.
+ */
+export function matchQuery(
+	request: Request,
+	query?: Record<string, QueryValueMatcher>,
+	strict = false,
+): boolean {
 	if (!query) return true;
-	const url = new URL(request.url);
-	for (const [key, value] of Object.entries(query)) {
-		if (url.searchParams.get(key) !== value) return false;
+	const { searchParams } = new URL(request.url);
+	for (const [key, matcher] of Object.entries(query)) {
+		if (!matchQueryParam(searchParams.getAll(key), matcher, strict)) return false;
+	}
+	if (strict) {
+		for (const key of searchParams.keys()) {
+			if (!Object.hasOwn(query, key)) return false;
+		}
 	}
 	return true;
 }
 
+function matchQueryParam(values: string[], matcher: QueryValueMatcher, strict: boolean): boolean {
+	if (!matchQueryValue(values, matcher)) return false;
+	const singleValue = matcher !== null && !Array.isArray(matcher);
+	return !(strict && singleValue && values.length !== 1);
+}
+
+/**
+ * Returns one line per query param that fails {@link matchQuery}, e.g.
+ * `query.page: expected "2", received "1"`.
+ */
+export function diffQuery(
+	request: Request,
+	query?: Record<string, QueryValueMatcher>,
+	strict = false,
+): string[] {
+	if (!query) return [];
+	const { searchParams } = new URL(request.url);
+	const diffs = Object.entries(query).flatMap(([key, matcher]) => {
+		const values = searchParams.getAll(key);
+		return matchQueryParam(values, matcher, strict)
+			? []
+			: [`query.${key}: expected ${describeField(matcher)}, received ${describeValues(values)}`];
+	});
+	if (strict) {
+		for (const key of new Set(searchParams.keys())) {
+			if (!Object.hasOwn(query, key)) {
+				diffs.push(
+					`query.${key}: unexpected param with ${describeValues(searchParams.getAll(key))}`,
+				);
+			}
+		}
+	}
+	return diffs;
+}
+
 export function matchHeaders(
 	request: Request,
 	headers?: Record<string, HeaderValueMatcher>,
@@ -94,15 +296,353 @@ export function matchHeaders(
 	return true;
 }
 
+/**
+ * Returns one line per header that fails {@link matchHeaders}, e.g.
+ * `headers.authorization: expected "Bearer abc", received nothing`.
+ */
+export function diffHeaders(
+	request: Request,
+	headers?: Record<string, HeaderValueMatcher>,
+): string[] {
+	if (!headers) return [];
+	return Object.entries(headers).flatMap(([key, matcher]) => {
+		const value = request.headers.get(key);
+		if (value !== null && matchesValue(value, matcher)) return [];
+		return [
+			`headers.${key}: expected ${describeExpected(matcher)}, received ${describeValues(value === null ? [] : [value])}`,
+		];
+	});
+}
+
+const PARTIAL = Symbol('partial');
+
+interface PartialMatcher extends AsymmetricMatcher {
+	readonly [PARTIAL]: JsonMatcher;
+}
+
+function isAsymmetricMatcher(value: unknown): value is AsymmetricMatcher {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		typeof (value as AsymmetricMatcher).asymmetricMatch === 'function'
+	);
+}
+
+function isPartialMatcher(value: unknown): value is PartialMatcher {
+	return typeof value === 'object' && value !== null && PARTIAL in value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	if (typeof value !== 'object' || value === null) return false;
+	const proto = Object.getPrototypeOf(value);
+	return proto === Object.prototype || proto === null;
+}
+
+function asymmetric(description: string, match: (actual: unknown) => boolean): AsymmetricMatcher {
+	return { asymmetricMatch: match, toString: () => description };
+}
+
+/** Matches any string. */
+export function anyString(): AsymmetricMatcher {
+	return asymmetric('anyString()', (actual) => typeof actual === 'string');
+}
+
+/** Matches any finite number. */
+export function anyNumber(): AsymmetricMatcher {
+	return asymmetric(
+		'anyNumber()',
+		(actual) => typeof actual === 'number' && Number.isFinite(actual),
+	);
+}
+
+/** Matches any value except `null` and `undefined` (a missing key). */
+export function anything(): AsymmetricMatcher {
+	return asymmetric('anything()', (actual) => actual !== null && actual !== undefined);
+}
+
+/** Matches strings containing `expected`, or matching it when it is a RegExp. */
+export function stringMatching(expected: string | RegExp): AsymmetricMatcher {
+	return asymmetric(
+		`stringMatching(${typeof expected === 'string' ? JSON.stringify(expected) : expected})`,
+		(actual) =>
+			typeof actual === 'string' &&
+			(typeof expected === 'string' ? actual.includes(expected) : expected.test(actual)),
+	);
+}
+
+/**
+ * Matches objects that contain at least the given keys, recursively: extra
+ * keys are ignored at any depth. Arrays must still have the same length.
+ */
+export function partial(expected: JsonMatcher): AsymmetricMatcher {
+	const matcher: PartialMatcher = {
+		[PARTIAL]: expected,
+		asymmetricMatch: (actual) => diffJson(actual, expected, true).length === 0,
+		toString: () => `partial(${describeExpected(expected)})`,
+	};
+	return matcher;
+}
+
+function describeExpected(expected: unknown): string {
+	if (typeof expected === 'function') return '<function>';
+	if (isPartialMatcher(expected) || expected instanceof RegExp) return String(expected);
+	if (isAsymmetricMatcher(expected)) {
+		// Vitest/Jest matchers describe themselves via toAsymmetricMatcher()
+		const describe = (expected as { toAsymmetricMatcher?: () => string }).toAsymmetricMatcher;
+		return typeof describe === 'function' ? describe.call(expected) : String(expected);
+	}
+	return describeActual(expected);
+}
+
+function describeActual(actual: unknown): string {
+	if (actual === undefined) return 'undefined';
+	if (isPlainObject(actual) || Array.isArray(actual)) {
+		const items = Array.isArray(actual)
+			? actual.map(describeExpected)
+			: Object.entries(actual).map(
+					([key, value]) => `${JSON.stringify(key)}:${describeExpected(value)}`,
+				);
+		return Array.isArray(actual) ? `[${items.join(',')}]` : `{${items.join(',')}}`;
+	}
+	return JSON.stringify(actual);
+}
+
+/** Describes a query or form field matcher; `null` asserts the field is absent. */
+function describeField(matcher: unknown): string {
+	return matcher === null ? 'absent' : describeExpected(matcher);
+}
+
+function describeValues(values: FormDataEntryValue[]): string {
+	if (values.length === 0) return 'nothing';
+	return values
+		.map((value) =>
+			typeof value === 'string'
+				? JSON.stringify(value)
+				: `file ${JSON.stringify(value.name)} (${value.size} bytes)`,
+		)
+		.join(', ');
+}
+
+function describeEach<T>(
+	matchers: Record<string, T>,
+	describe: (matcher: T) => string,
+): Record<string, string> {
+	return Object.fromEntries(Object.entries(matchers).map(([key, m]) => [key, describe(m)]));
+}
+
+/** Describes the query, header, body and form matchers of an interceptor. */
+export function describeInterceptOptions(
+	options: InterceptOptions,
+): InterceptorMatchers | undefined {
+	const matchers: InterceptorMatchers = {
+		...(options.query && { query: describeEach(options.query, describeField) }),
+		...(options.headers && { headers: describeEach(options.headers, describeExpected) }),
+		...(options.body !== undefined && { body: describeExpected(options.body) }),
+		...(options.formData && { formData: describeEach(options.formData, describeField) }),
+	};
+	return Object.keys(matchers).length > 0 ? matchers : undefined;
+}
+
+/**
+ * Compares a parsed JSON value against an expected value and returns one line
+ * per difference, e.g. `$.user.name: expected "Alice", received "Bob"`.
+ * Returns an empty array when they match.
+ */
+export function diffJson(
+	actual: unknown,
+	expected: unknown,
+	partialMatch = false,
+	path = '$',
+): string[] {
+	const mismatch = () => [
+		`${path}: expected ${describeExpected(expected)}, received ${describeActual(actual)}`,
+	];
+
+	if (isPartialMatcher(expected)) return diffJson(actual, expected[PARTIAL], true, path);
+	if (isAsymmetricMatcher(expected)) return expected.asymmetricMatch(actual) ? [] : mismatch();
+	if (expected instanceof RegExp) {
+		return typeof actual === 'string' && expected.test(actual) ? [] : mismatch();
+	}
+
+	if (Array.isArray(expected)) {
+		if (!Array.isArray(actual)) return mismatch();
+		if (actual.length !== expected.length) {
+			return [`${path}: expected ${expected.length} items, received ${actual.length}`];
+		}
+		return expected.flatMap((item, i) => diffJson(actual[i], item, partialMatch, `${path}[${i}]`));
+	}
+
+	if (isPlainObject(expected)) {
+		if (!isPlainObject(actual)) return mismatch();
+		const diffs = Object.entries(expected).flatMap(([key, value]) =>
+			Object.hasOwn(actual, key)
+				? diffJson(actual[key], value, partialMatch, `${path}.${key}`)
+				: [`${path}.${key}: missing, expected ${describeExpected(value)}`],
+		);
+		if (!partialMatch) {
+			for (const key of Object.keys(actual)) {
+				if (!Object.hasOwn(expected, key)) {
+					diffs.push(`${path}.${key}: unexpected key with ${describeActual(actual[key])}`);
+				}
+			}
+		}
+		return diffs;
+	}
+
+	return Object.is(actual, expected) ? [] : mismatch();
+}
+
+/** Returns true when the body matcher compares the parsed JSON body rather than its text. */
+export function isJsonBodyMatcher(
+	bodyMatcher?: BodyMatcher,
+): bodyMatcher is Exclude<BodyMatcher, string | RegExp | ((body: string) => boolean)> {
+	return typeof bodyMatcher === 'object' && !(bodyMatcher instanceof RegExp);
+}
+
+/**
+ * Returns the differences between the request body and a body matcher. JSON
+ * matchers report one line per difference, or a single line when the body is
+ * empty or not valid JSON; text matchers report a single `body:` line.
+ */
+export function diffBody(bodyText: string | null, bodyMatcher: BodyMatcher): string[] {
+	if (!isJsonBodyMatcher(bodyMatcher)) {
+		return matchesValue(bodyText ?? '', bodyMatcher)
+			? []
+			: [
+					`body: expected ${describeExpected(bodyMatcher)}, received ${bodyText === null ? 'an empty body' : JSON.stringify(bodyText)}`,
+				];
+	}
+	if (bodyText === null) return ['$: expected a JSON body, received an empty body'];
+	let actual: unknown;
+	try {
+		actual = JSON.parse(bodyText);
+	} catch {
+		return [`$: expected a JSON body, received ${JSON.stringify(bodyText)}`];
+	}
+	return diffJson(actual, bodyMatcher);
+}
+
 export function matchBody(bodyText: string | null, bodyMatcher?: BodyMatcher): boolean {
 	if (!bodyMatcher) return true;
+	if (isJsonBodyMatcher(bodyMatcher)) return diffBody(bodyText, bodyMatcher).length === 0;
 	return matchesValue(bodyText ?? '', bodyMatcher);
 }
 
+const FORM_CONTENT_TYPE = /^\s*(multipart\/form-data|application\/x-www-form-urlencoded)\b/i;
+
+/** Returns true for `multipart/form-data` and `application/x-www-form-urlencoded` content types. */
+export function isFormContentType(contentType: string | null): contentType is string {
+	return contentType !== null && FORM_CONTENT_TYPE.test(contentType);
+}
+
+function isMultipart(request: Request): boolean {
+	return /^\s*multipart\//i.test(request.headers.get('content-type') ?? '');
+}
+
+/** Parses a form body, or returns `null` when it is empty, not a form or malformed. */
+export async function parseFormData(
+	body: ArrayBuffer | null,
+	contentType: string | null,
+): Promise<FormData | null> {
+	if (body === null || !isFormContentType(contentType)) return null;
+	try {
+		return await new Response(body, { headers: { 'content-type': contentType } }).formData();
+	} catch {
+		return null;
+	}
+}
+
+function matchFormValue(
+	value: FormDataEntryValue,
+	matcher: Exclude<FormFieldMatcher, unknown[] | null>,
+): boolean {
+	if (typeof matcher !== 'object' || matcher instanceof RegExp) {
+		return typeof value === 'string' && matchesValue(value, matcher);
+	}
+	if (typeof value === 'string') return false;
+	const file: FormFileMatcher = matcher;
+	if (file.name !== undefined && !matchesValue(value.name, file.name)) return false;
+	if (file.type !== undefined && !matchesValue(value.type, file.type)) return false;
+	if (typeof file.size === 'number') return value.size === file.size;
+	return file.size === undefined || file.size(value.size);
+}
+
+/**
+ * Matches form fields. Text matchers only match text fields and file
+ * matchers only match uploaded files; fields that are not listed are ignored.
+ */
+export function matchFormData(
+	formData: FormData | null,
+	matcher?: Record<string, FormFieldMatcher>,
+): boolean {
+	if (!matcher) return true;
+	if (!formData) return false;
+	for (const [key, fieldMatcher] of Object.entries(matcher)) {
+		const values = formData.getAll(key);
+		if (fieldMatcher === null) {
+			if (values.length > 0) return false;
+		} else if (Array.isArray(fieldMatcher)) {
+			if (values.length !== fieldMatcher.length) return false;
+			if (!fieldMatcher.every((m, i) => matchFormValue(values[i], m))) return false;
+		} else if (values.length === 0 || !matchFormValue(values[0], fieldMatcher)) {
+			return false;
+		}
+	}
+	return true;
+}
+
+/**
+ * Returns one line per form field that fails {@link matchFormData}, e.g.
+ * `formData.avatar: expected {"type":"image/png"}, received "me.png"`.
+ */
+export function diffFormData(
+	formData: FormData | null,
+	matcher?: Record<string, FormFieldMatcher>,
+): string[] {
+	if (!matcher) return [];
+	if (!formData) return ['formData: expected a form body, received none'];
+	return Object.entries(matcher).flatMap(([key, fieldMatcher]) =>
+		matchFormData(formData, { [key]: fieldMatcher })
+			? []
+			: [
+					`formData.${key}: expected ${describeField(fieldMatcher)}, received ${describeValues(formData.getAll(key))}`,
+				],
+	);
+}
+
+export function createReplyRequest(
+	request: Request,
+	bodyText: string | null,
+	params: Record<string, string>,
+): ReplyRequest {
+	const url = new URL(request.url);
+	let json: unknown;
+	if (bodyText !== null) {
+		try {
+			json = JSON.parse(bodyText);
+		} catch {
+			json = undefined;
+		}
+	}
+	return {
+		body: bodyText,
+		request,
+		method: request.method,
+		url,
+		searchParams: url.searchParams,
+		headers: request.headers,
+		json,
+		params,
+	};
+}
+
 export function recordCall(
 	callHistory: MockCallHistory,
 	request: Request,
 	bodyText: string | null,
+	params: Record<string, string> = {},
+	rawBody?: ArrayBuffer,
+	details: Pick<MockCallHistoryLogData, 'interceptor' | 'matched' | 'passthrough'> = {},
 ) {
 	const url = new URL(request.url);
 	const requestHeaders: Record<string, string> = {};
@@ -113,7 +653,7 @@ export function recordCall(
 	url.searchParams.forEach((value, key) => {
 		searchParams[key] = value;
 	});
-	callHistory.record({
+	return callHistory.record({
 		body: bodyText,
 		method: request.method,
 		headers: requestHeaders,
@@ -125,5 +665,80 @@ export function recordCall(
 		host: url.host,
 		port: url.port,
 		hash: url.hash,
+		params,
+		// Keep the bytes of multipart bodies so binary file parts survive formData()
+		...(rawBody && isMultipart(request) ? { rawBody } : {}),
+		...details,
+		requestedAt: Date.now(),
+	});
+}
+
+/** Larger reply bodies are left out of call history rather than buffered. */
+const MAX_RECORDED_BODY_BYTES = 1024 * 1024;
+
+/** Reads at most `limit` bytes, cancelling the stream and returning `null` beyond that. */
+async function readBodyUpTo(
+	stream: ReadableStream<Uint8Array>,
+	limit: number,
+): Promise<Uint8Array | null> {
+	const reader = stream.getReader();
+	const chunks: Uint8Array[] = [];
+	let size = 0;
+	for (;;) {
+		const { value, done } = await reader.read();
+		if (done) break;
+		size += value.byteLength;
+		if (size > limit) {
+			await reader.cancel();
+			return null;
+		}
+		chunks.push(value);
+	}
+	const bytes = new Uint8Array(size);
+	let offset = 0;
+	for (const chunk of chunks) {
+		bytes.set(chunk, offset);
+		offset += chunk.byteLength;
+	}
+	return bytes;
+}
+
+/**
+ * Adds the mocked response to a recorded call. Bodies built from in-memory
+ * data are read from a clone before the reply is returned; others, such as
+ * a `Response` returned by a reply callback, are read in the background so
+ * the reply is not held back until it ends. Bodies of `replyStream()`/
+ * `replySse()` replies and bodies over 1 MiB are not recorded: reading them
+ * would pull the stream ahead of the client.
+ */
+export async function recordResponse(
+	log: MockCallHistoryLog,
+	response: Response,
+	delay: number,
+): Promise<void> {
+	const responseHeaders: Record<string, string> = {};
+	response.headers.forEach((value, key) => {
+		responseHeaders[key] = value;
+	});
+	const respondedAt = Date.now();
+	Object.assign(log, {
+		status: response.status,
+		responseHeaders,
+		responseBody: null,
+		delay,
+		error: response.type === 'error',
+		respondedAt,
+		duration: respondedAt - (log.requestedAt ?? respondedAt),
 	});
+	const body = response.body === null || isStreamResponse(response) ? null : response.clone().body;
+	if (!body) return;
+	const capture = readBodyUpTo(body, MAX_RECORDED_BODY_BYTES).then(
+		(bytes) => {
+			if (!bytes) return;
+			const { body: responseBody, encoding } = encodeBody(bytes);
+			Object.assign(log, { responseBody, ...(encoding && { responseEncoding: encoding }) });
+		},
+		() => {},
+	);
+	if (isBufferedResponse(response)) await capture;
 }
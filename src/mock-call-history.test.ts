@@ -18,6 +18,9 @@ function createLog(overrides: Partial<MockCallHistoryLogData> = {}): MockCallHis
 		host: 'localhost:8787',
 		port: '8787',
 		hash: '',
+		params: {},
+		matched: true,
+		passthrough: false,
 		...overrides,
 	};
 }
@@ -216,6 +219,49 @@ describe('MockCallHistory', () => {
 		});
 	});
 
+	describe('formData()', () => {
+		it('should parse URL-encoded bodies', async () => {
+			const history = new MockCallHistory();
+			history.record(
+				createLog({
+					body: 'name=Alice&tag=a&tag=b',
+					headers: { 'content-type': 'application/x-www-form-urlencoded' },
+				}),
+			);
+
+			const formData = await history.lastCall()!.formData();
+
+			expect(formData.get('name')).toBe('Alice');
+			expect(formData.getAll('tag')).toEqual(['a', 'b']);
+		});
+
+		it('should parse multipart bodies from the raw bytes', async () => {
+			const form = new FormData();
+			form.append('file', new Blob([new Uint8Array([0xff, 0x00, 0xfe])]), 'data.bin');
+			const request = new Request('http://localhost', { method: 'POST', body: form });
+			const history = new MockCallHistory();
+			history.record(
+				createLog({
+					body: 'ignored',
+					headers: { 'content-type': request.headers.get('content-type')! },
+					rawBody: await request.arrayBuffer(),
+				}),
+			);
+
+			const file = (await history.lastCall()!.formData()).get('file') as File;
+
+			expect(file.name).toBe('data.bin');
+			expect(new Uint8Array(await file.arrayBuffer())).toEqual(new Uint8Array([0xff, 0x00, 0xfe]));
+		});
+
+		it('should reject for non-form bodies', async () => {
+			const history = new MockCallHistory();
+			history.record(createLog({ body: '{}', headers: { 'content-type': 'application/json' } }));
+
+			await expect(history.lastCall()!.formData()).rejects.toThrow(TypeError);
+		});
+	});
+
 	describe('filterCalls', () => {
 		it('should filter calls using function predicate', () => {
 			const history = new MockCallHistory();
@@ -402,6 +448,108 @@ describe('MockCallHistory', () => {
 		});
 	});
 
+	describe('toHar()', () => {
+		it('should describe each call and its mocked response as a HAR 1.2 entry', () => {
+			const history = new MockCallHistory();
+			history.record(
+				createLog({
+					method: 'POST',
+					fullUrl: 'http://localhost:8787/api/posts?tag=a&tag=b',
+					headers: { 'content-type': 'application/json' },
+					body: '{"title":"é"}',
+					interceptor: {
+						id: 3,
+						method: 'POST',
+						origin: 'http://localhost:8787',
+						path: '/api/posts',
+					},
+					status: 201,
+					responseHeaders: { 'content-type': 'application/json' },
+					responseBody: '{"id":1}',
+					requestedAt: Date.UTC(2024, 0, 1),
+					duration: 12,
+				}),
+			);
+
+			expect(history.toHar()).toEqual({
+				log: {
+					version: '1.2',
+					creator: { name: 'msw-fetch-mock', version: '' },
+					entries: [
+						{
+							startedDateTime: '2024-01-01T00:00:00.000Z',
+							time: 12,
+							request: {
+								method: 'POST',
+								url: 'http://localhost:8787/api/posts?tag=a&tag=b',
+								httpVersion: 'HTTP/1.1',
+								cookies: [],
+								headers: [{ name: 'content-type', value: 'application/json' }],
+								queryString: [
+									{ name: 'tag', value: 'a' },
+									{ name: 'tag', value: 'b' },
+								],
+								postData: { mimeType: 'application/json', text: '{"title":"é"}' },
+								headersSize: -1,
+								bodySize: 14,
+							},
+							response: {
+								status: 201,
+								statusText: '',
+								httpVersion: 'HTTP/1.1',
+								cookies: [],
+								headers: [{ name: 'content-type', value: 'application/json' }],
+								content: { size: 8, mimeType: 'application/json', text: '{"id":1}' },
+								redirectURL: '',
+								headersSize: -1,
+								bodySize: 8,
+							},
+							cache: {},
+							timings: { send: 0, wait: 12, receive: 0 },
+							comment: 'Mocked by interceptor #3: POST http://localhost:8787/api/posts',
+						},
+					],
+				},
+			});
+		});
+
+		it('should base64-encode binary response bodies', () => {
+			const history = new MockCallHistory();
+			history.record(
+				createLog({
+					status: 200,
+					responseHeaders: { 'content-type': 'application/octet-stream' },
+					responseBody: '/wAB',
+					responseEncoding: 'base64',
+				}),
+			);
+
+			const [entry] = history.toHar().log.entries;
+
+			expect(entry.response.content).toEqual({
+				size: 3,
+				mimeType: 'application/octet-stream',
+				text: '/wAB',
+				encoding: 'base64',
+			});
+			expect(entry.response.bodySize).toBe(3);
+		});
+
+		it('should note calls no interceptor answered', () => {
+			const history = new MockCallHistory();
+			history.record(createLog({ matched: false }));
+			history.record(createLog({ matched: false, passthrough: true }));
+
+			const [unmatched, passthrough] = history.toHar().log.entries;
+
+			expect(unmatched.response.status).toBe(0);
+			expect(unmatched.comment).toBe('No interceptor matched.');
+			expect(passthrough.comment).toBe(
+				'Passed through to the network; the response was not recorded.',
+			);
+		});
+	});
+
 	describe('filterCallsByProtocol', () => {
 		it('should filter by protocol string', () => {
 			const history = new MockCallHistory();
@@ -491,4 +639,65 @@ describe('MockCallHistory', () => {
 			expect(history.filterCallsByFullUrl(/posts/)).toHaveLength(1);
 		});
 	});
+
+	describe('unmatched', () => {
+		it('should return only unmatched calls', () => {
+			const history = new MockCallHistory();
+			history.record(createLog({ path: '/matched' }));
+			history.record(createLog({ path: '/missing', matched: false, passthrough: true }));
+
+			expect(history.unmatched().map((log) => log.path)).toEqual(['/missing']);
+			expect(history.unmatched()[0].passthrough).toBe(true);
+		});
+
+		it('should default logs to matched', () => {
+			const history = new MockCallHistory();
+			history.record(createLog());
+
+			expect(history.unmatched()).toEqual([]);
+		});
+	});
+
+	describe('forInterceptor / expectCalled', () => {
+		const users = { id: 1, method: 'GET', origin: 'http://localhost:8787', path: '/api/users' };
+		const posts = { id: 2, method: 'POST', origin: 'http://localhost:8787', path: '/api/posts' };
+
+		it('should return the calls served by an interceptor', () => {
+			const history = new MockCallHistory();
+			history.record(createLog({ path: '/api/users', interceptor: users }));
+			history.record(createLog({ path: '/api/posts', interceptor: posts }));
+			history.record(createLog({ path: '/api/users', interceptor: users }));
+
+			expect(history.forInterceptor(users)).toHaveLength(2);
+			expect(history.forInterceptor({ interceptor: posts })).toHaveLength(1);
+		});
+
+		it('should match interceptors by id', () => {
+			const history = new MockCallHistory();
+			history.record(createLog({ interceptor: users }));
+
+			expect(history.forInterceptor({ ...users })).toHaveLength(1);
+		});
+
+		it('should pass when the interceptor was called the expected number of times', () => {
+			const history = new MockCallHistory();
+			history.record(createLog({ interceptor: users }));
+			history.record(createLog({ interceptor: users }));
+
+			expect(() => history.expectCalled(users)).not.toThrow();
+			expect(() => history.expectCalled(users, { times: 2 })).not.toThrow();
+		});
+
+		it('should throw when the call count differs', () => {
+			const history = new MockCallHistory();
+			history.record(createLog({ interceptor: users }));
+
+			expect(() => history.expectCalled(users, { times: 2 })).toThrow(
+				'Expected GET http://localhost:8787/api/users to be called 2 times, but it was called 1 time.',
+			);
+			expect(() => history.expectCalled({ interceptor: posts })).toThrow(
+				'Expected POST http://localhost:8787/api/posts to be called at least once, but it was called 0 times.',
+			);
+		});
+	});
 });
@@ -1,3 +1,13 @@
+import { type Har, type HarEntry, type HarHeader } from './har-types';
+
+/** The identifying fields of the `PendingInterceptor` that served a call. */
+export interface InterceptorRef {
+	readonly id: number;
+	readonly method: string;
+	readonly origin: string;
+	readonly path: string;
+}
+
 export interface MockCallHistoryLogData {
 	body: string | null;
 	method: string;
@@ -10,6 +20,46 @@ export interface MockCallHistoryLogData {
 	host: string;
 	port: string;
 	hash: string;
+	/** Named path params extracted from a path template or RegExp groups. */
+	params?: Record<string, string>;
+	/** Raw body bytes, kept for `multipart/form-data` requests. */
+	rawBody?: ArrayBuffer;
+	/** The interceptor that served this call. */
+	interceptor?: InterceptorRef;
+	/** Status of the mocked response; `0` for network errors. */
+	status?: number;
+	/** Headers of the mocked response. */
+	responseHeaders?: Record<string, string>;
+	/**
+	 * Body of the mocked response: text, or base64 when `responseEncoding` is
+	 * `'base64'`. Set before `fetch` resolves, except for a `Response` returned
+	 * by a reply callback. Stays `null` for streamed replies and bodies over 1 MiB.
+	 */
+	responseBody?: string | null;
+	/** `'base64'` when the response body is not valid UTF-8. */
+	responseEncoding?: 'base64';
+	/** Delay applied with `chain.delay()`, in milliseconds. */
+	delay?: number;
+	/** `true` when the interceptor replied with a network error. */
+	error?: boolean;
+	/** Epoch milliseconds at which the request was recorded. */
+	requestedAt?: number;
+	/** Epoch milliseconds at which the mocked response was returned. */
+	respondedAt?: number;
+	/** `respondedAt - requestedAt`, including any delay. */
+	duration?: number;
+	/** `false` for requests no interceptor matched (see `recordUnmatched`). */
+	matched?: boolean;
+	/** `true` when an unmatched request was sent to the real network. */
+	passthrough?: boolean;
+}
+
+function toHarHeaders(headers: Record<string, string>): HarHeader[] {
+	return Object.entries(headers).map(([name, value]) => ({ name, value }));
+}
+
+function byteLength(text: string | null): number {
+	return text === null ? 0 : new TextEncoder().encode(text).byteLength;
 }
 
 export class MockCallHistoryLog implements MockCallHistoryLogData {
@@ -24,6 +74,20 @@ export class MockCallHistoryLog implements MockCallHistoryLogData {
 	readonly host!: string;
 	readonly port!: string;
 	readonly hash!: string;
+	readonly params: Record<string, string> = {};
+	readonly rawBody?: ArrayBuffer;
+	readonly interceptor?: InterceptorRef;
+	readonly status?: number;
+	readonly responseHeaders?: Record<string, string>;
+	readonly responseBody?: string | null;
+	readonly responseEncoding?: 'base64';
+	readonly delay?: number;
+	readonly error?: boolean;
+	readonly requestedAt?: number;
+	readonly respondedAt?: number;
+	readonly duration?: number;
+	readonly matched: boolean = true;
+	readonly passthrough: boolean = false;
 
 	constructor(data: MockCallHistoryLogData) {
 		Object.assign(this, data);
@@ -41,6 +105,16 @@ export class MockCallHistoryLog implements MockCallHistoryLogData {
 		return JSON.parse(this.body);
 	}
 
+	/**
+	 * Parses a `multipart/form-data` or `application/x-www-form-urlencoded`
+	 * request body. Rejects with a `TypeError` for other bodies.
+	 */
+	formData(): Promise<FormData> {
+		return new Response(this.rawBody ?? this.body, {
+			headers: { 'content-type': this.headers['content-type'] ?? 'text/plain' },
+		}).formData();
+	}
+
 	/**
 	 * Returns a Map representation of this call log.
 	 * Provided for compatibility with the `cloudflare:test` fetchMock API.
@@ -61,6 +135,63 @@ export class MockCallHistoryLog implements MockCallHistoryLogData {
 		]);
 	}
 
+	/** This call and its mocked response as a HAR 1.2 entry. */
+	toHarEntry(): HarEntry {
+		const time = this.duration ?? 0;
+		const responseHeaders = this.responseHeaders ?? {};
+		const responseBody = this.responseBody ?? '';
+		const responseSize =
+			this.responseEncoding === 'base64' ? atob(responseBody).length : byteLength(responseBody);
+		return {
+			startedDateTime: new Date(this.requestedAt ?? Date.now()).toISOString(),
+			time,
+			request: {
+				method: this.method,
+				url: this.fullUrl,
+				httpVersion: 'HTTP/1.1',
+				cookies: [],
+				headers: toHarHeaders(this.headers),
+				queryString: [...new URL(this.fullUrl).searchParams].map(([name, value]) => ({
+					name,
+					value,
+				})),
+				...(this.body !== null && {
+					postData: { mimeType: this.headers['content-type'] ?? '', text: this.body },
+				}),
+				headersSize: -1,
+				bodySize: this.rawBody?.byteLength ?? byteLength(this.body),
+			},
+			response: {
+				status: this.status ?? 0,
+				statusText: '',
+				httpVersion: 'HTTP/1.1',
+				cookies: [],
+				headers: toHarHeaders(responseHeaders),
+				content: {
+					size: responseSize,
+					mimeType: responseHeaders['content-type'] ?? '',
+					text: responseBody,
+					...(this.responseEncoding && { encoding: this.responseEncoding }),
+				},
+				redirectURL: responseHeaders.location ?? '',
+				headersSize: -1,
+				bodySize: responseSize,
+			},
+			cache: {},
+			timings: { send: 0, wait: time, receive: 0 },
+			comment: this.describeOutcome(),
+		};
+	}
+
+	private describeOutcome(): string {
+		if (this.passthrough) return 'Passed through to the network; the response was not recorded.';
+		if (!this.matched) return 'No interceptor matched.';
+		if (this.error) return 'The interceptor replied with a network error.';
+		if (!this.interceptor) return 'Mocked response.';
+		const { id, method, origin, path } = this.interceptor;
+		return `Mocked by interceptor #${id}: ${method} ${origin}${path}`;
+	}
+
 	/**
 	 * Returns a pipe-separated string representation of this call log.
 	 * Provided for compatibility with the `cloudflare:test` fetchMock API.
@@ -90,6 +221,17 @@ export interface CallHistoryFilterCriteria {
 	fullUrl?: string;
 }
 
+/** A `PendingInterceptor` or a reply chain exposing one. */
+export type InterceptorHandle = InterceptorRef | { readonly interceptor: InterceptorRef };
+
+function toInterceptor(handle: InterceptorHandle): InterceptorRef {
+	return 'interceptor' in handle ? handle.interceptor : handle;
+}
+
+function formatTimes(n: number): string {
+	return `${n} ${n === 1 ? 'time' : 'times'}`;
+}
+
 export class MockCallHistory {
 	private logs: MockCallHistoryLog[] = [];
 
@@ -97,8 +239,10 @@ export class MockCallHistory {
 		return this.logs.length;
 	}
 
-	record(data: MockCallHistoryLogData): void {
-		this.logs.push(data instanceof MockCallHistoryLog ? data : new MockCallHistoryLog(data));
+	record(data: MockCallHistoryLogData): MockCallHistoryLog {
+		const log = data instanceof MockCallHistoryLog ? data : new MockCallHistoryLog(data);
+		this.logs.push(log);
+		return log;
 	}
 
 	called(
@@ -138,10 +282,52 @@ export class MockCallHistory {
 		return this.filterCalls(criteria)[n - 1];
 	}
 
+	/**
+	 * Returns the calls served by the given interceptor. Accepts a reply chain or
+	 * any `PendingInterceptor`, including copies from `pendingInterceptors()`.
+	 */
+	forInterceptor(handle: InterceptorHandle): MockCallHistoryLog[] {
+		const { id } = toInterceptor(handle);
+		return this.logs.filter((log) => log.interceptor?.id === id);
+	}
+
+	/**
+	 * Throws unless the interceptor served a call — exactly `times` calls when given.
+	 */
+	expectCalled(handle: InterceptorHandle, options?: { times?: number }): void {
+		const interceptor = toInterceptor(handle);
+		const count = this.forInterceptor(interceptor).length;
+		const times = options?.times;
+		if (times === undefined ? count > 0 : count === times) return;
+		const expected = times === undefined ? 'at least once' : formatTimes(times);
+		throw new Error(
+			`Expected ${interceptor.method} ${interceptor.origin}${interceptor.path} to be called ${expected}, but it was called ${formatTimes(count)}.`,
+		);
+	}
+
+	/**
+	 * Returns the requests no interceptor matched. These are only recorded when
+	 * the mock was activated with `recordUnmatched: true`.
+	 */
+	unmatched(): MockCallHistoryLog[] {
+		return this.logs.filter((log) => !log.matched);
+	}
+
 	clear(): void {
 		this.logs = [];
 	}
 
+	/** The recorded calls as a HAR 1.2 document, to open in browser devtools or a HAR viewer. */
+	toHar(): Har {
+		return {
+			log: {
+				version: '1.2',
+				creator: { name: 'msw-fetch-mock', version: '' },
+				entries: this.logs.map((log) => log.toHarEntry()),
+			},
+		};
+	}
+
 	[Symbol.iterator](): Iterator<MockCallHistoryLog> {
 		return this.logs[Symbol.iterator]();
 	}
@@ -1,4 +1,5 @@
 import { type NativeHandler } from './native-handler-factory';
+import { getNetworkError } from './network-error';
 import { type MswAdapter, type ResolvedActivateOptions } from './types';
 
 export class NativeFetchAdapter implements MswAdapter {
@@ -30,7 +31,7 @@ export class NativeFetchAdapter implements MswAdapter {
 			const response = await handler.handlerFn(request);
 			if (response !== undefined) {
 				if (response.type === 'error') {
-					throw new TypeError('Failed to fetch');
+					throw getNetworkError(response) ?? new TypeError('Failed to fetch');
 				}
 				return response;
 			}
@@ -94,6 +95,10 @@ export class NativeFetchAdapter implements MswAdapter {
 		this.handlers = [];
 	}
 
+	bypass(request: Request): Promise<Response> {
+		return this.originalFetch(request);
+	}
+
 	use(...handlers: unknown[]): void {
 		this.handlers.push(...(handlers as NativeHandler[]));
 	}
@@ -59,6 +59,32 @@ describe('NativeHandlerFactory', () => {
 		});
 	});
 
+	describe('buildResponse with raw bodies', () => {
+		it('should pass string bodies through as text', async () => {
+			const response = NativeHandlerFactory.buildResponse(200, 'plain');
+
+			expect(response.headers.get('content-type')).toMatch(/^text\/plain/);
+			expect(await response.text()).toBe('plain');
+		});
+
+		it('should pass ArrayBuffer bodies through as binary', async () => {
+			const response = NativeHandlerFactory.buildResponse(200, new Uint8Array([7, 8]).buffer);
+
+			expect(response.headers.get('content-type')).toBe('application/octet-stream');
+			expect(new Uint8Array(await response.arrayBuffer())).toEqual(new Uint8Array([7, 8]));
+		});
+	});
+
+	describe('buildStreamResponse', () => {
+		it('should return a Response wrapping the stream', async () => {
+			const stream = new Blob(['chunk']).stream();
+			const response = NativeHandlerFactory.buildStreamResponse(200, stream);
+
+			expect(response.body).not.toBeNull();
+			expect(await response.text()).toBe('chunk');
+		});
+	});
+
 	describe('buildErrorResponse', () => {
 		it('should return an error Response', () => {
 			const response = NativeHandlerFactory.buildErrorResponse();
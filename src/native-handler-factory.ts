@@ -1,3 +1,5 @@
+import { isRawBody, withDefaultContentType } from './body';
+import { tagNetworkError } from './network-error';
 import { type HandlerFactory, type HttpMethod } from './types';
 
 export interface NativeHandler {
@@ -8,7 +10,7 @@ export interface NativeHandler {
 
 export const NativeHandlerFactory: HandlerFactory = {
 	createHandler(method, urlPattern, handlerFn): NativeHandler {
-		return { method, urlPattern, handlerFn };
+		return { method: method.toUpperCase(), urlPattern, handlerFn };
 	},
 
 	createCatchAllHandler(handlerFn): NativeHandler {
@@ -20,10 +22,17 @@ export const NativeHandlerFactory: HandlerFactory = {
 		if (body === null || body === undefined) {
 			return new Response(null, { status, headers });
 		}
+		if (isRawBody(body)) {
+			return new Response(body, { status, headers: withDefaultContentType(body, headers) });
+		}
 		return Response.json(body, { status, headers });
 	},
 
-	buildErrorResponse() {
-		return Response.error();
+	buildStreamResponse(status, stream, headers) {
+		return new Response(stream, { status, headers });
+	},
+
+	buildErrorResponse(error) {
+		return tagNetworkError(Response.error(), error);
 	},
 };
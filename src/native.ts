@@ -1,4 +1,5 @@
 import { FetchMock } from './fetch-mock';
+import { registerLifecycleHooks, type SetupFetchMockOptions } from './lifecycle';
 import { NativeFetchAdapter } from './native-adapter';
 import { NativeHandlerFactory } from './native-handler-factory';
 
@@ -19,4 +20,9 @@ export function createFetchMock(): FetchMock {
 /** Pre-built singleton for quick standalone use. */
 export const fetchMock = createFetchMock();
 
+/** Like `setupFetchMock` from `msw-fetch-mock/node`, defaulting to the native singleton. */
+export function setupFetchMock(options: SetupFetchMockOptions): FetchMock {
+	return registerLifecycleHooks(options.fetchMock ?? fetchMock, options);
+}
+
 export * from './exports';
@@ -0,0 +1,14 @@
+const networkErrors = new WeakMap<Response, Error>();
+
+/**
+ * Associates the error passed to `replyWithError(error)` with a network-error
+ * `Response`, so the transport layer can reject `fetch` with it.
+ */
+export function tagNetworkError(response: Response, error?: Error): Response {
+	if (error) networkErrors.set(response, error);
+	return response;
+}
+
+export function getNetworkError(response: Response): Error | undefined {
+	return networkErrors.get(response);
+}
@@ -1,3 +1,4 @@
+import { bypass } from 'msw';
 import { setupServer } from 'msw/node';
 import { type MswAdapter, type ResolvedActivateOptions, type SetupServerLike } from './types';
 
@@ -55,4 +56,8 @@ export class NodeMswAdapter implements MswAdapter {
 			this.server = null;
 		}
 	}
+
+	bypass(request: Request): Promise<Response> {
+		return fetch(bypass(request));
+	}
 }
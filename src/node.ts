@@ -1,5 +1,6 @@
 import { FetchMock } from './fetch-mock';
-import { HandlerFactory } from './handler-factory';
+import { NodeHandlerFactory } from './handler-factory';
+import { registerLifecycleHooks, type SetupFetchMockOptions } from './lifecycle';
 import { NodeMswAdapter } from './node-adapter';
 import { type SetupServerLike } from './types';
 
@@ -10,7 +11,7 @@ export { NodeMswAdapter } from './node-adapter';
 FetchMock._defaultAdapterFactory = () => new NodeMswAdapter();
 
 /** Register MSW http handler factory. */
-FetchMock._handlerFactory = HandlerFactory;
+FetchMock._handlerFactory = NodeHandlerFactory;
 
 export function createFetchMock(server?: SetupServerLike): FetchMock {
 	return new FetchMock(new NodeMswAdapter(server));
@@ -19,5 +20,14 @@ export function createFetchMock(server?: SetupServerLike): FetchMock {
 /** Pre-built singleton for quick standalone use (Cloudflare migration compatible). */
 export const fetchMock = createFetchMock();
 
+/**
+ * Wire `fetchMock` (or `options.fetchMock`) into the test runner's hooks:
+ * activate before all tests, assert no pending interceptors and reset after
+ * each test, deactivate after all tests.
+ */
+export function setupFetchMock(options: SetupFetchMockOptions): FetchMock {
+	return registerLifecycleHooks(options.fetchMock ?? fetchMock, options);
+}
+
 export * from './exports';
 export type { SetupServerLike } from './types';
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { openApiBaseUrl, openApiPathMatcher, sampleFromSchema } from './openapi';
+import { type OpenApiDocument } from './types';
+
+const spec: OpenApiDocument = {
+	openapi: '3.1.0',
+	components: {
+		schemas: {
+			Node: {
+				type: 'object',
+				properties: {
+					name: { type: 'string' },
+					children: { type: 'array', items: { $ref: '#/components/schemas/Node' } },
+				},
+			},
+			Pet: {
+				allOf: [
+					{ type: 'object', properties: { id: { type: 'string', format: 'uuid' } } },
+					{ type: 'object', properties: { kind: { enum: ['cat', 'dog'] } } },
+				],
+			},
+		},
+	},
+};
+
+describe('openApiPathMatcher', () => {
+	it('should turn whole-segment parameters into a path template', () => {
+		expect(openApiPathMatcher('/users/{id}/posts/{postId}')).toBe('/users/:id/posts/:postId');
+	});
+
+	it('should fall back to a RegExp for parameters inside a segment', () => {
+		const matcher = openApiPathMatcher('/files/{name}.json') as RegExp;
+
+		expect(matcher.exec('/files/a.json?v=1')?.groups).toEqual({ name: 'a' });
+		expect(matcher.test('/files/a/b.json')).toBe(false);
+		expect((openApiPathMatcher('/jobs/*') as RegExp).test('/jobs/*')).toBe(true);
+	});
+});
+
+describe('openApiBaseUrl', () => {
+	it('should keep the server path under the given origin', () => {
+		expect(
+			openApiBaseUrl({ openapi: '3.0.0', servers: [{ url: '/api/' }] }, 'http://localhost:3000'),
+		).toBe('http://localhost:3000/api');
+	});
+
+	it('should require an origin for relative server URLs', () => {
+		expect(() => openApiBaseUrl({ openapi: '3.0.0' })).toThrow('requires an `origin`');
+	});
+});
+
+describe('sampleFromSchema', () => {
+	it('should build samples from types, formats, enums and allOf', () => {
+		expect(sampleFromSchema(spec, { $ref: '#/components/schemas/Pet' })).toEqual({
+			id: '00000000-0000-4000-8000-000000000000',
+			kind: 'cat',
+		});
+		expect(sampleFromSchema(spec, { type: ['null', 'integer'], minimum: 1.5 })).toBe(2);
+		expect(sampleFromSchema(spec, { type: 'array', minItems: 2, items: { const: 'x' } })).toEqual([
+			'x',
+			'x',
+		]);
+	});
+
+	it('should stop at recursive references', () => {
+		expect(sampleFromSchema(spec, { $ref: '#/components/schemas/Node' })).toEqual({
+			name: 'string',
+			children: [],
+		});
+	});
+});
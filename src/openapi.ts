@@ -0,0 +1,234 @@
+import { readJsonFile } from './fixtures';
+import { escapeRegExp, isPathTemplate } from './matchers';
+import {
+	type OpenApiDocument,
+	type OpenApiMediaType,
+	type OpenApiOperation,
+	type OpenApiResponse,
+	type OpenApiSchema,
+	type PathMatcher,
+} from './types';
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+/** An operation of the spec, reduced to what an interceptor needs. */
+export interface OpenApiRoute {
+	/** `operationId`, or `'METHOD /path'` when the operation has none. */
+	key: string;
+	method: string;
+	path: PathMatcher;
+	status: number;
+	/** Serialized example body, or `null` when the response has no content. */
+	body: string | null;
+	headers: Record<string, string>;
+}
+
+/** Follows a local `$ref` such as `#/components/schemas/User`. */
+export function resolveRef<T>(spec: OpenApiDocument, value: T): T {
+	let resolved = value as T & { $ref?: unknown };
+	const seen = new Set<string>();
+	while (resolved && typeof resolved.$ref === 'string') {
+		const ref = resolved.$ref;
+		if (!ref.startsWith('#/') || seen.has(ref)) {
+			throw new Error(
+				`Cannot resolve $ref "${ref}": only local, non-circular references are supported.`,
+			);
+		}
+		seen.add(ref);
+		let target: unknown = spec;
+		for (const segment of ref.slice(2).split('/')) {
+			const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+			target = (target as Record<string, unknown> | undefined)?.[key];
+		}
+		if (target === undefined) throw new Error(`Cannot resolve $ref "${ref}".`);
+		resolved = target as T & { $ref?: unknown };
+	}
+	return resolved;
+}
+
+/** Resolves the server URL variables, relative URLs and the `origin` override. */
+export function openApiBaseUrl(spec: OpenApiDocument, origin?: string): string {
+	const server = spec.servers?.[0];
+	const serverUrl = (server?.url ?? '/').replace(
+		/\{([^}]+)\}/g,
+		(token, name: string) => server?.variables?.[name]?.default ?? token,
+	);
+	if (!origin && !/^[a-z][a-z\d+.-]*:\/\//i.test(serverUrl)) {
+		throw new Error('fromOpenApi() requires an `origin` when the spec has no absolute server URL.');
+	}
+	const url = new URL(serverUrl, origin);
+	const base = origin ? new URL(origin).origin : url.origin;
+	return base + url.pathname.replace(/\/+$/, '');
+}
+
+/**
+ * Converts a spec path to a path matcher: `/users/{id}` becomes the template
+ * `/users/:id`. Parameters inside a segment (`/files/{name}.json`) and paths
+ * with literal template characters fall back to an anchored RegExp.
+ */
+export function openApiPathMatcher(path: string): PathMatcher {
+	const template = path.replace(/\/\{([A-Za-z_$][\w$]*)\}(?=\/|$)/g, '/:$1');
+	if (!template.includes('{') && !isPathTemplate(path)) return template;
+	let source = '';
+	let lastIndex = 0;
+	for (const match of path.matchAll(/\{([^}]+)\}/g)) {
+		source += escapeRegExp(path.slice(lastIndex, match.index));
+		source += /^[A-Za-z_$][\w$]*$/.test(match[1]) ? `(?<${match[1]}>[^/]+)` : '([^/]+)';
+		lastIndex = match.index + match[0].length;
+	}
+	source += escapeRegExp(path.slice(lastIndex));
+	return new RegExp(`^${source}(?:\\?.*)?$`);
+}
+
+const STRING_FORMATS: Record<string, string> = {
+	date: '1970-01-01',
+	'date-time': '1970-01-01T00:00:00Z',
+	email: 'user@example.com',
+	uri: 'https://example.com',
+	uuid: '00000000-0000-4000-8000-000000000000',
+};
+
+/**
+ * Builds sample data for a schema from its `example`, `default`, `enum` or
+ * type. Every declared property is included; arrays get `minItems` (at least
+ * one) items.
+ */
+export function sampleFromSchema(
+	spec: OpenApiDocument,
+	input: OpenApiSchema | undefined,
+	refs: string[] = [],
+): unknown {
+	if (!input) return null;
+	if (input.$ref && refs.includes(input.$ref)) return null;
+	const schema = resolveRef(spec, input);
+	const seen = input.$ref ? [...refs, input.$ref] : refs;
+	if (schema.example !== undefined) return schema.example;
+	if (schema.examples?.length) return schema.examples[0];
+	if (schema.const !== undefined) return schema.const;
+	if (schema.default !== undefined) return schema.default;
+	if (schema.enum?.length) return schema.enum[0];
+	if (schema.allOf) {
+		const parts = schema.allOf.map((part) => sampleFromSchema(spec, part, seen));
+		return parts.every((part) => part !== null && typeof part === 'object' && !Array.isArray(part))
+			? Object.assign({}, ...parts)
+			: parts[0];
+	}
+	const variant = schema.oneOf?.[0] ?? schema.anyOf?.[0];
+	if (variant) return sampleFromSchema(spec, variant, seen);
+
+	const type = Array.isArray(schema.type)
+		? (schema.type.find((t) => t !== 'null') ?? 'null')
+		: (schema.type ?? (schema.properties ? 'object' : schema.items ? 'array' : undefined));
+	switch (type) {
+		case 'object':
+			return Object.fromEntries(
+				Object.entries(schema.properties ?? {}).map(([name, property]) => [
+					name,
+					sampleFromSchema(spec, property, seen),
+				]),
+			);
+		case 'array':
+			// A recursive item schema yields an empty list rather than `[null]`
+			if (schema.items?.$ref && seen.includes(schema.items.$ref)) return [];
+			return Array.from({ length: Math.max(schema.minItems ?? 1, 1) }, () =>
+				sampleFromSchema(spec, schema.items, seen),
+			);
+		case 'string':
+			return STRING_FORMATS[schema.format ?? ''] ?? 'string';
+		case 'integer':
+			return Math.ceil(schema.minimum ?? 0);
+		case 'number':
+			return schema.minimum ?? 0;
+		case 'boolean':
+			return true;
+		default:
+			return null;
+	}
+}
+
+/** The documented success status: the lowest 2xx code, then `2XX` or `default` as 200. */
+function successStatus(responses: Record<string, OpenApiResponse>): [number, string] | undefined {
+	const codes = Object.keys(responses);
+	const numeric = codes.filter((code) => /^\d{3}$/.test(code)).sort();
+	const success = numeric.find((code) => code.startsWith('2'));
+	if (success) return [Number(success), success];
+	const fallback =
+		codes.find((code) => /^2xx$/i.test(code)) ?? codes.find((code) => code === 'default');
+	if (fallback) return [200, fallback];
+	return numeric[0] ? [Number(numeric[0]), numeric[0]] : undefined;
+}
+
+function isJsonMediaType(mediaType: string): boolean {
+	return /[/+]json\b/i.test(mediaType);
+}
+
+/** Prefers a JSON media type, as most clients request it. */
+function pickMediaType(content: Record<string, OpenApiMediaType>): string | undefined {
+	const types = Object.keys(content);
+	return types.find(isJsonMediaType) ?? types[0];
+}
+
+/** The media type's `example`, first `examples` entry, or a sample built from its schema. */
+function mediaExample(spec: OpenApiDocument, media: OpenApiMediaType): unknown {
+	if (media.example !== undefined) return media.example;
+	const [first] = Object.values(media.examples ?? {});
+	if (first) {
+		const { value } = resolveRef(spec, first);
+		if (value !== undefined) return value;
+	}
+	return sampleFromSchema(spec, media.schema);
+}
+
+function routeReply(
+	spec: OpenApiDocument,
+	operation: OpenApiOperation,
+): Pick<OpenApiRoute, 'status' | 'body' | 'headers'> {
+	const responses = operation.responses ?? {};
+	const [status, code] = successStatus(responses) ?? [200, ''];
+	const response = code ? resolveRef(spec, responses[code]) : undefined;
+	const content = response?.content ?? {};
+	const mediaType = pickMediaType(content);
+	if (mediaType === undefined || status === 204 || status === 304) {
+		return { status, body: null, headers: {} };
+	}
+	const example = mediaExample(spec, content[mediaType]);
+	const body =
+		typeof example === 'string' && !isJsonMediaType(mediaType) ? example : JSON.stringify(example);
+	return { status, body, headers: { 'Content-Type': mediaType } };
+}
+
+/** Throws for Swagger 2.0 and other documents that are not OpenAPI 3.x. */
+export function assertOpenApi3(spec: OpenApiDocument): void {
+	if (typeof spec.openapi !== 'string' || !spec.openapi.startsWith('3.')) {
+		throw new Error(
+			`Unsupported OpenAPI version "${String(spec.openapi ?? spec.swagger)}": only OpenAPI 3.x documents are supported.`,
+		);
+	}
+}
+
+/** Lists every operation of an OpenAPI 3.x document with its generated reply. */
+export function openApiRoutes(spec: OpenApiDocument): OpenApiRoute[] {
+	assertOpenApi3(spec);
+	const routes: OpenApiRoute[] = [];
+	for (const [path, pathItem] of Object.entries(spec.paths ?? {})) {
+		const item = resolveRef(spec, pathItem);
+		for (const method of HTTP_METHODS) {
+			const operation = item[method] as OpenApiOperation | undefined;
+			if (!operation) continue;
+			routes.push({
+				key: operation.operationId ?? `${method.toUpperCase()} ${path}`,
+				method: method.toUpperCase(),
+				path: openApiPathMatcher(path),
+				...routeReply(spec, operation),
+			});
+		}
+	}
+	return routes;
+}
+
+/** Reads an OpenAPI 3.x document from a JSON file. Node.js only. */
+export async function loadOpenApi(path: string): Promise<OpenApiDocument> {
+	const spec = (await readJsonFile(path)) as OpenApiDocument;
+	assertOpenApi3(spec);
+	return spec;
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { formatPendingReport } from './pending-report';
+import { type PendingInterceptor, type PendingInterceptorsReport } from './types';
+
+function createPending(overrides: Partial<PendingInterceptor> = {}): PendingInterceptor {
+	return {
+		id: 1,
+		origin: 'http://localhost',
+		path: '/test',
+		method: 'GET',
+		consumed: false,
+		times: 1,
+		timesInvoked: 0,
+		persist: false,
+		...overrides,
+	};
+}
+
+describe('formatPendingReport', () => {
+	const report: PendingInterceptorsReport = {
+		pending: [
+			createPending({
+				matchers: { query: { q: '/a|b/' }, formData: { file: 'absent' } },
+				stack: '    at Object.<anonymous> (/app/users.test.ts:12:5)\n    at next (/app/x.js:1:1)',
+			}),
+			createPending({ id: 2, method: 'POST', persist: true, timesInvoked: 3 }),
+		],
+		unmatchedRequests: [{ method: 'GET', url: 'http://localhost/other' }],
+	};
+
+	it('should list each interceptor with its details by default', () => {
+		expect(formatPendingReport(report)).toBe(
+			[
+				'Pending interceptor(s) not consumed:',
+				'  GET http://localhost/test',
+				'      invoked 0 of 1 times',
+				'      query.q: /a|b/',
+				'      formData.file: absent',
+				'      registered at Object.<anonymous> (/app/users.test.ts:12:5)',
+				'  POST http://localhost/test',
+				'      invoked 3 times (persist)',
+				'',
+				'Unmatched requests:',
+				'  GET http://localhost/other',
+			].join('\n'),
+		);
+	});
+
+	it('should render markdown tables and escape pipes', () => {
+		expect(formatPendingReport(report, 'table')).toBe(
+			[
+				'Pending interceptor(s) not consumed:',
+				'',
+				'| Method | URL | Invoked | Times | Matchers | Registered at |',
+				'| --- | --- | --- | --- | --- | --- |',
+				'| GET | http://localhost/test | 0 | 1 | query.q: /a\\|b/; formData.file: absent | Object.<anonymous> (/app/users.test.ts:12:5) |',
+				'| POST | http://localhost/test | 3 | persist |  |  |',
+				'',
+				'Unmatched requests:',
+				'',
+				'| Method | URL |',
+				'| --- | --- |',
+				'| GET | http://localhost/other |',
+			].join('\n'),
+		);
+	});
+
+	it('should serialize the report as JSON', () => {
+		expect(JSON.parse(formatPendingReport(report, 'json'))).toEqual(report);
+	});
+
+	it('should name the test that registered an interceptor', () => {
+		const tagged = {
+			pending: [createPending({ test: 'users > creates a user' })],
+			unmatchedRequests: [],
+		};
+
+		expect(formatPendingReport(tagged)).toContain('      registered in "users > creates a user"');
+		expect(formatPendingReport(tagged, 'table')).toContain('| in "users > creates a user" |');
+	});
+
+	it('should delegate to a custom formatter', () => {
+		expect(
+			formatPendingReport(report, (r) => `${r.pending.length}/${r.unmatchedRequests.length}`),
+		).toBe('2/1');
+	});
+});
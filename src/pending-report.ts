@@ -0,0 +1,91 @@
+import {
+	type PendingInterceptor,
+	type PendingInterceptorsReport,
+	type PendingReportFormat,
+} from './types';
+
+const HEADING = 'Pending interceptor(s) not consumed:';
+
+function describeInvocations(p: PendingInterceptor): string {
+	if (p.persist) return `invoked ${p.timesInvoked} times (persist)`;
+	return `invoked ${p.timesInvoked} of ${p.times} times`;
+}
+
+function matcherLines(p: PendingInterceptor): string[] {
+	const { query = {}, headers = {}, body, formData = {} } = p.matchers ?? {};
+	return [
+		...Object.entries(query).map(([key, value]) => `query.${key}: ${value}`),
+		...Object.entries(headers).map(([key, value]) => `headers.${key}: ${value}`),
+		...(body === undefined ? [] : [`body: ${body}`]),
+		...Object.entries(formData).map(([key, value]) => `formData.${key}: ${value}`),
+	];
+}
+
+/** The first frame of the registration stack, without the leading `at`. */
+function callSite(p: PendingInterceptor): string | undefined {
+	return p.stack
+		?.split('\n')
+		.find((line) => line.trim() !== '')
+		?.trim()
+		.replace(/^at /, '');
+}
+
+/** The test that registered the interceptor, e.g. `in "users > creates a user"`. */
+function testLabel(p: PendingInterceptor): string | undefined {
+	return p.test === undefined ? undefined : `in "${p.test}"`;
+}
+
+function formatText({ pending, unmatchedRequests }: PendingInterceptorsReport): string {
+	const entries = pending.map((p) => {
+		const site = callSite(p);
+		const registered = [site && `at ${site}`, testLabel(p)].filter(Boolean).join(' ');
+		const details = [
+			describeInvocations(p),
+			...matcherLines(p),
+			...(registered ? [`registered ${registered}`] : []),
+		];
+		return `  ${p.method} ${p.origin}${p.path}\n${details.map((line) => `      ${line}`).join('\n')}`;
+	});
+	let text = `${HEADING}\n${entries.join('\n')}`;
+	if (unmatchedRequests.length > 0) {
+		const requests = unmatchedRequests.map(({ method, url }) => `  ${method} ${url}`);
+		text += `\n\nUnmatched requests:\n${requests.join('\n')}`;
+	}
+	return text;
+}
+
+function tableRow(cells: Array<string | number>): string {
+	return `| ${cells.map((cell) => String(cell).replace(/\|/g, '\\|')).join(' | ')} |`;
+}
+
+function table(header: string[], rows: Array<Array<string | number>>): string {
+	return [tableRow(header), tableRow(header.map(() => '---')), ...rows.map(tableRow)].join('\n');
+}
+
+function formatTable({ pending, unmatchedRequests }: PendingInterceptorsReport): string {
+	const rows = pending.map((p) => [
+		p.method,
+		`${p.origin}${p.path}`,
+		p.timesInvoked,
+		p.persist ? 'persist' : p.times,
+		matcherLines(p).join('; '),
+		[callSite(p), testLabel(p)].filter(Boolean).join(' '),
+	]);
+	let text = `${HEADING}\n\n${table(['Method', 'URL', 'Invoked', 'Times', 'Matchers', 'Registered at'], rows)}`;
+	if (unmatchedRequests.length > 0) {
+		const requests = unmatchedRequests.map(({ method, url }) => [method, url]);
+		text += `\n\nUnmatched requests:\n\n${table(['Method', 'URL'], requests)}`;
+	}
+	return text;
+}
+
+/** Renders the message thrown by `assertNoPendingInterceptors()`. */
+export function formatPendingReport(
+	report: PendingInterceptorsReport,
+	format: PendingReportFormat = 'text',
+): string {
+	if (typeof format === 'function') return format(report);
+	if (format === 'json') return JSON.stringify(report, null, 2);
+	if (format === 'table') return formatTable(report);
+	return formatText(report);
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { createChunkStream, formatSseEvent } from './stream';
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<string[]> {
+	const decoder = new TextDecoder();
+	const chunks: string[] = [];
+	const reader = stream.getReader();
+	for (;;) {
+		const { value, done } = await reader.read();
+		if (done) return chunks;
+		chunks.push(decoder.decode(value));
+	}
+}
+
+describe('createChunkStream', () => {
+	it('should enqueue each item of an array as a separate chunk', async () => {
+		const stream = createChunkStream(['a', 'b', 'c'], (chunk: string) => chunk);
+
+		expect(await readAll(stream)).toEqual(['a', 'b', 'c']);
+	});
+
+	it('should pass Uint8Array chunks through unchanged', async () => {
+		const bytes = new Uint8Array([104, 105]);
+		const stream = createChunkStream([bytes], (chunk: Uint8Array) => chunk);
+
+		const reader = stream.getReader();
+		expect((await reader.read()).value).toBe(bytes);
+	});
+
+	it('should consume async iterables', async () => {
+		async function* tokens() {
+			yield 'Hel';
+			yield 'lo';
+		}
+		const stream = createChunkStream(tokens, (chunk: string) => chunk);
+
+		expect(await readAll(stream)).toEqual(['Hel', 'lo']);
+	});
+
+	it('should call the source factory for every stream', async () => {
+		const source = function* () {
+			yield 'x';
+		};
+
+		expect(await readAll(createChunkStream(source, (c: string) => c))).toEqual(['x']);
+		expect(await readAll(createChunkStream(source, (c: string) => c))).toEqual(['x']);
+	});
+
+	it('should wait chunkDelay ms before each chunk', async () => {
+		const stream = createChunkStream(['a', 'b'], (chunk: string) => chunk, 50);
+
+		const start = Date.now();
+		await readAll(stream);
+
+		expect(Date.now() - start).toBeGreaterThanOrEqual(90);
+	});
+
+	it('should close the source iterator when cancelled', async () => {
+		let closed = false;
+		function* source() {
+			try {
+				yield 'a';
+				yield 'b';
+			} finally {
+				closed = true;
+			}
+		}
+		const reader = createChunkStream(source, (chunk: string) => chunk).getReader();
+
+		await reader.read();
+		await reader.cancel();
+
+		expect(closed).toBe(true);
+	});
+});
+
+describe('formatSseEvent', () => {
+	it('should format a string as a data-only event', () => {
+		expect(formatSseEvent('hello')).toBe('data: hello\n\n');
+	});
+
+	it('should format all event fields', () => {
+		expect(
+			formatSseEvent({ comment: 'ping', id: '1', event: 'update', retry: 3000, data: 'x' }),
+		).toBe(': ping\nid: 1\nevent: update\nretry: 3000\ndata: x\n\n');
+	});
+
+	it('should split multi-line data into several data lines', () => {
+		expect(formatSseEvent({ data: 'line1\nline2' })).toBe('data: line1\ndata: line2\n\n');
+	});
+
+	it('should JSON-serialize non-string data', () => {
+		expect(formatSseEvent({ data: { token: 'hi' } })).toBe('data: {"token":"hi"}\n\n');
+	});
+});
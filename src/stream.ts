@@ -0,0 +1,89 @@
+import { type SseEvent, type StreamChunk, type StreamSource } from './types';
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function toIterator<T>(source: StreamSource<T>): AsyncIterator<T> | Iterator<T> {
+	const iterable = typeof source === 'function' ? source() : source;
+	if (Symbol.asyncIterator in iterable) return iterable[Symbol.asyncIterator]();
+	return iterable[Symbol.iterator]();
+}
+
+/**
+ * Creates a byte stream that pulls items from `source` lazily, encoding each
+ * one with `encode` and waiting `chunkDelay` ms before enqueueing it.
+ */
+export function createChunkStream<T>(
+	source: StreamSource<T>,
+	encode: (item: T) => StreamChunk,
+	chunkDelay = 0,
+): ReadableStream<Uint8Array> {
+	const encoder = new TextEncoder();
+	let iterator: AsyncIterator<T> | Iterator<T>;
+
+	return new ReadableStream<Uint8Array>({
+		start() {
+			iterator = toIterator(source);
+		},
+		async pull(controller) {
+			const { value, done } = await iterator.next();
+			if (done) {
+				controller.close();
+				return;
+			}
+			if (chunkDelay > 0) await sleep(chunkDelay);
+			const chunk = encode(value);
+			controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+		},
+		async cancel() {
+			await iterator.return?.();
+		},
+	});
+}
+
+const streamResponses = new WeakSet<Response>();
+
+/**
+ * Marks a `replyStream()`/`replySse()` response, whose body may be
+ * open-ended, so call history does not read it.
+ */
+export function tagStreamResponse(response: Response): Response {
+	streamResponses.add(response);
+	return response;
+}
+
+export function isStreamResponse(response: Response): boolean {
+	return streamResponses.has(response);
+}
+
+const bufferedResponses = new WeakSet<Response>();
+
+/**
+ * Marks a response whose body was built from in-memory data, so call
+ * history can read it before the response is returned.
+ */
+export function tagBufferedResponse(response: Response): Response {
+	bufferedResponses.add(response);
+	return response;
+}
+
+export function isBufferedResponse(response: Response): boolean {
+	return bufferedResponses.has(response);
+}
+
+/** Serializes an event using the `text/event-stream` wire format. */
+export function formatSseEvent(event: SseEvent | string): string {
+	if (typeof event === 'string') return formatSseEvent({ data: event });
+
+	const lines: string[] = [];
+	if (event.comment !== undefined) lines.push(`: ${event.comment}`);
+	if (event.id !== undefined) lines.push(`id: ${event.id}`);
+	if (event.event !== undefined) lines.push(`event: ${event.event}`);
+	if (event.retry !== undefined) lines.push(`retry: ${event.retry}`);
+	if (event.data !== undefined) {
+		const data = typeof event.data === 'string' ? event.data : JSON.stringify(event.data);
+		for (const line of data.split('\n')) lines.push(`data: ${line}`);
+	}
+	return `${lines.join('\n')}\n\n`;
+}
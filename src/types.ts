@@ -1,21 +1,138 @@
-export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+import { type MockCallHistoryLog } from './mock-call-history';
+
+export type StandardHttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH' | 'HEAD' | 'OPTIONS';
+/** Any HTTP method; standard methods get autocompletion, custom verbs (e.g. `PROPFIND`) are allowed. */
+export type HttpMethod = StandardHttpMethod | (string & {});
+export type MethodMatcher = HttpMethod | RegExp | HttpMethod[] | ((method: string) => boolean);
 export type PathMatcher = string | RegExp | ((path: string) => boolean);
 export type HeaderValueMatcher = string | RegExp | ((value: string) => boolean);
-export type BodyMatcher = string | RegExp | ((body: string) => boolean);
+/**
+ * Matches a single value inside a JSON body. Compatible with asymmetric
+ * matchers from Vitest/Jest such as `expect.any(String)`.
+ */
+export interface AsymmetricMatcher {
+	asymmetricMatch(actual: unknown): boolean;
+	/** Description used in body mismatch diffs. */
+	toString(): string;
+}
+/** Expected JSON value; RegExps match string fields, asymmetric matchers match anything. */
+export type JsonMatcher =
+	| null
+	| boolean
+	| number
+	| string
+	| RegExp
+	| AsymmetricMatcher
+	| JsonMatcher[]
+	| { [key: string]: JsonMatcher };
+/**
+ * A string, RegExp or predicate matches the raw body text. An object, array
+ * or asymmetric matcher matches the body parsed as JSON (deep equality).
+ */
+export type BodyMatcher =
+	| string
+	| RegExp
+	| ((body: string) => boolean)
+	| AsymmetricMatcher
+	| JsonMatcher[]
+	| { [key: string]: JsonMatcher };
+
+/**
+ * Matches one query parameter: a single value, every value of a repeated key
+ * (array, in order), or `null` to require that the param is absent.
+ */
+export type QueryValueMatcher = HeaderValueMatcher | HeaderValueMatcher[] | null;
+
+/** Matches an uploaded file field; every given property must match. */
+export interface FormFileMatcher {
+	name?: HeaderValueMatcher;
+	type?: HeaderValueMatcher;
+	size?: number | ((size: number) => boolean);
+}
+/**
+ * Matches one form field: a text value, an uploaded file, every value of a
+ * repeated field (array, in order), or `null` to require that it is absent.
+ */
+export type FormFieldMatcher =
+	| HeaderValueMatcher
+	| FormFileMatcher
+	| Array<HeaderValueMatcher | FormFileMatcher>
+	| null;
 
 export interface InterceptOptions {
 	path: PathMatcher;
-	method?: HttpMethod;
+	method?: MethodMatcher;
 	headers?: Record<string, HeaderValueMatcher>;
 	body?: BodyMatcher;
-	query?: Record<string, string>;
+	/** Matches fields of a `multipart/form-data` or URL-encoded body. Extra fields are allowed. */
+	formData?: Record<string, FormFieldMatcher>;
+	query?: Record<string, QueryValueMatcher>;
+	/**
+	 * Interceptors with a higher priority are tried first. Default: 0.
+	 * Equal priorities follow the `dispatchOrder` activate option.
+	 */
+	priority?: number;
+	/**
+	 * Reject requests carrying query params that are not listed. Defaults to
+	 * `true` for a query string in `path` and `false` for `query`.
+	 */
+	strictQuery?: boolean;
 }
 
 export interface ReplyOptions {
 	headers?: Record<string, string>;
 }
 
-export type ReplyCallback = (req: { body: string | null }) => unknown | Promise<unknown>;
+/** Binary response body; sent as `application/octet-stream` unless a content type is given. */
+export type BinaryBody = ArrayBuffer | ArrayBufferView | Blob;
+
+/** A chunk of a streamed response body; strings are UTF-8 encoded. */
+export type StreamChunk = string | Uint8Array;
+
+/**
+ * Items of a streamed reply. Pass a factory function to produce a fresh
+ * iterable per request (generators can only be consumed once).
+ */
+export type StreamSource<T> =
+	| Iterable<T>
+	| AsyncIterable<T>
+	| (() => Iterable<T> | AsyncIterable<T>);
+
+export interface StreamReplyOptions extends ReplyOptions {
+	/** Delay in milliseconds before each chunk is sent. Default: 0. */
+	chunkDelay?: number;
+}
+
+/** A Server-Sent Event. Non-string `data` is JSON-serialized. */
+export interface SseEvent {
+	data?: unknown;
+	event?: string;
+	id?: string;
+	retry?: number;
+	comment?: string;
+}
+
+/** Request context passed to reply callbacks. */
+export interface ReplyRequest {
+	/** Request body as text, or `null` when empty. */
+	body: string | null;
+	/** The matched request. Its body has not been consumed. */
+	request: Request;
+	method: string;
+	url: URL;
+	searchParams: URLSearchParams;
+	headers: Headers;
+	/** Request body parsed as JSON, or `undefined` when it is empty or not valid JSON. */
+	json: unknown;
+	/** Named path parameters, e.g. from RegExp named groups `/(?<id>\d+)/`. */
+	params: Record<string, string>;
+}
+
+/**
+ * Returns the response body. Returning a `Response` sends it as-is — status,
+ * headers and body — ignoring the status and options given to `reply()`.
+ */
+export type ReplyCallback = (req: ReplyRequest) => unknown | Promise<unknown>;
 
 export interface SingleReplyResult {
 	statusCode: number;
@@ -23,9 +140,29 @@ export interface SingleReplyResult {
 	responseOptions?: ReplyOptions;
 }
 
-export type SingleReplyCallback = (req: {
-	body: string | null;
-}) => SingleReplyResult | Promise<SingleReplyResult>;
+/** Returns the full reply, or a `Response` to send as-is. */
+export type SingleReplyCallback = (
+	req: ReplyRequest,
+) => SingleReplyResult | Response | Promise<SingleReplyResult | Response>;
+
+/**
+ * What a reply sequence does once every step has been served:
+ * - `'fallthrough'` — stop matching, so later interceptors handle the request
+ * - `'repeat'` — keep replying with the last step
+ * - `'error'` — reply with a network error
+ */
+export type SequenceExhaustion = 'fallthrough' | 'repeat' | 'error';
+
+/**
+ * One step of `replySequence()`: a status code (empty body), a full reply, a
+ * callback returning one, or an `Error` to reply with a network error.
+ */
+export type ReplySequenceStep = number | SingleReplyResult | SingleReplyCallback | Error;
+
+export interface ReplySequenceOptions {
+	/** Default: `'fallthrough'`. */
+	whenExhausted?: SequenceExhaustion;
+}
 
 export interface MockReplyChain {
 	times(n: number): void;
@@ -33,6 +170,24 @@ export interface MockReplyChain {
 	delay(ms: number): void;
 	replyContentLength(): void;
 	intercept(options: InterceptOptions): MockInterceptor;
+	/** Appends a reply served to the next call, turning this interceptor into a sequence. */
+	thenReply(status: number, body?: unknown, options?: ReplyOptions): MockReplyChain;
+	thenReply(status: number, callback: ReplyCallback): MockReplyChain;
+	thenReply(callback: SingleReplyCallback): MockReplyChain;
+	/** Appends a network error served to the next call. */
+	thenReplyWithError(error?: Error): MockReplyChain;
+	/** Sets what happens after the last reply of the sequence. */
+	whenExhausted(mode: SequenceExhaustion): MockReplyChain;
+	/** Unregisters this interceptor; later requests fall through to other interceptors. */
+	remove(): void;
+	/** True once the interceptor has served every expected call (any call for `persist()`). */
+	isDone(): boolean;
+	/** Number of requests this interceptor has served. */
+	readonly timesInvoked: number;
+	/** Recorded calls served by this interceptor. */
+	calls(): MockCallHistoryLog[];
+	/** The interceptor behind this chain, usable as a `calls.forInterceptor()` handle. */
+	readonly interceptor: PendingInterceptor;
 }
 
 export interface MockInterceptor {
@@ -40,6 +195,16 @@ export interface MockInterceptor {
 	reply(status: number, callback: ReplyCallback): MockReplyChain;
 	reply(callback: SingleReplyCallback): MockReplyChain;
 	replyWithError(error?: Error): MockReplyChain;
+	replyText(status: number, text: string, options?: ReplyOptions): MockReplyChain;
+	replyBinary(status: number, data: BinaryBody, options?: ReplyOptions): MockReplyChain;
+	replyStream(
+		status: number,
+		chunks: StreamSource<StreamChunk>,
+		options?: StreamReplyOptions,
+	): MockReplyChain;
+	replySse(events: StreamSource<SseEvent | string>, options?: StreamReplyOptions): MockReplyChain;
+	/** Serves one step per call, in order, e.g. `[503, 503, { statusCode: 200, data }]`. */
+	replySequence(steps: ReplySequenceStep[], options?: ReplySequenceOptions): MockReplyChain;
 }
 
 export interface MockPool {
@@ -47,6 +212,8 @@ export interface MockPool {
 }
 
 export interface PendingInterceptor {
+	/** Unique within a FetchMock instance; recorded calls refer to it. */
+	id: number;
 	origin: string;
 	path: string;
 	method: string;
@@ -54,6 +221,193 @@ export interface PendingInterceptor {
 	times: number;
 	timesInvoked: number;
 	persist: boolean;
+	/** Set for `fromOpenApi()` interceptors, which are never reported as pending. */
+	optional?: boolean;
+	/** Set when the interceptor was registered with a `priority`. */
+	priority?: number;
+	/** Progress of a reply sequence; absent for single replies. */
+	sequence?: {
+		/** Number of steps in the sequence. */
+		length: number;
+		/** Number of steps served so far, at most `length`. */
+		position: number;
+		whenExhausted: SequenceExhaustion;
+	};
+	/** Request criteria besides origin, path and method, when any were given. */
+	matchers?: InterceptorMatchers;
+	/** Stack trace of the `intercept()` call that registered the interceptor. */
+	stack?: string;
+	/** Name of the test that registered the interceptor, when run under `setupFetchMock()`. */
+	test?: string;
+}
+
+/** An interceptor's query, header, body and form matchers, described as text. */
+export interface InterceptorMatchers {
+	query?: Record<string, string>;
+	headers?: Record<string, string>;
+	body?: string;
+	formData?: Record<string, string>;
+}
+
+export interface UnmatchedRequest {
+	method: string;
+	url: string;
+}
+
+/** The data behind an `assertNoPendingInterceptors()` failure. */
+export interface PendingInterceptorsReport {
+	pending: PendingInterceptor[];
+	/** Requests no interceptor matched since the last `reset()`. */
+	unmatchedRequests: UnmatchedRequest[];
+}
+
+export type PendingReportFormatter = (report: PendingInterceptorsReport) => string;
+export type PendingReportFormat = 'text' | 'table' | 'json' | PendingReportFormatter;
+
+/** A recorded request and the response the network returned for it. */
+export interface FixtureEntry {
+	request: {
+		method: string;
+		url: string;
+		headers: Record<string, string>;
+		/** Request body as text; absent when the request had none. */
+		body?: string;
+	};
+	response: {
+		status: number;
+		headers: Record<string, string>;
+		/** Response body as text, or base64 when `encoding` is `'base64'`. */
+		body: string;
+		encoding?: 'base64';
+	};
+}
+
+/** Request/response pairs captured by `startRecording()`, replayed by `replay()`. */
+export interface Fixture {
+	version: 1;
+	entries: FixtureEntry[];
+}
+
+export type { Har, HarEntry, HarHeader } from './har-types';
+
+/** Request fields a replayed entry must match. */
+export type HarMatchField = 'method' | 'url' | 'body';
+
+export interface LoadHarOptions {
+	/** Request fields to match. Default: `['method', 'url', 'body']`. */
+	matchBy?: HarMatchField[];
+	/** Keep each interceptor after its first match. Default: false. */
+	persist?: boolean;
+	/** Delay each reply by the entry's recorded `time`. Default: true. */
+	delay?: boolean;
+}
+
+/** A JSON Schema as used by OpenAPI 3.x; only the keywords read here are typed. */
+export interface OpenApiSchema {
+	$ref?: string;
+	type?: string | string[];
+	format?: string;
+	enum?: unknown[];
+	const?: unknown;
+	default?: unknown;
+	example?: unknown;
+	/** OpenAPI 3.1 (JSON Schema) examples. */
+	examples?: unknown[];
+	nullable?: boolean;
+	properties?: Record<string, OpenApiSchema>;
+	required?: string[];
+	additionalProperties?: boolean | OpenApiSchema;
+	items?: OpenApiSchema;
+	allOf?: OpenApiSchema[];
+	oneOf?: OpenApiSchema[];
+	anyOf?: OpenApiSchema[];
+	minimum?: number;
+	maximum?: number;
+	/** A boolean modifier of `minimum` in OpenAPI 3.0, a bound of its own in 3.1. */
+	exclusiveMinimum?: number | boolean;
+	exclusiveMaximum?: number | boolean;
+	minLength?: number;
+	maxLength?: number;
+	pattern?: string;
+	minItems?: number;
+	maxItems?: number;
+	[keyword: string]: unknown;
+}
+
+export interface OpenApiMediaType {
+	schema?: OpenApiSchema;
+	example?: unknown;
+	examples?: Record<string, { $ref?: string; value?: unknown }>;
+}
+
+export interface OpenApiResponse {
+	$ref?: string;
+	description?: string;
+	content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiParameter {
+	$ref?: string;
+	name: string;
+	in: 'path' | 'query' | 'header' | 'cookie';
+	required?: boolean;
+	/** For `in: 'query'` arrays, `false` reads comma-separated values. */
+	explode?: boolean;
+	schema?: OpenApiSchema;
+}
+
+export interface OpenApiRequestBody {
+	$ref?: string;
+	required?: boolean;
+	content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiOperation {
+	operationId?: string;
+	parameters?: OpenApiParameter[];
+	requestBody?: OpenApiRequestBody;
+	responses?: Record<string, OpenApiResponse>;
+	[field: string]: unknown;
+}
+
+/** An OpenAPI 3.x document, parsed from JSON or YAML. */
+export interface OpenApiDocument {
+	openapi: string;
+	servers?: Array<{
+		url: string;
+		variables?: Record<string, { default: string }>;
+	}>;
+	paths?: Record<string, Record<string, OpenApiOperation | unknown>>;
+	components?: Record<string, Record<string, unknown>>;
+	[field: string]: unknown;
+}
+
+export interface FromOpenApiOptions {
+	/**
+	 * Origin to mock, e.g. `'http://localhost:8787'`. The path of the first
+	 * `servers` entry is kept as a base path. Default: the first server's URL.
+	 */
+	origin?: string;
+}
+
+export interface ContractValidationOptions {
+	/**
+	 * Origin whose requests are validated, e.g. `'http://localhost:8787'`.
+	 * The path of the first `servers` entry is kept as a base path. Default:
+	 * the first server's URL.
+	 */
+	origin?: string;
+}
+
+/** Interceptors registered by `fromOpenApi()`. */
+export interface OpenApiMock {
+	/** The persistent interceptor of each operation, keyed by `operationId` or `'METHOD /path'`. */
+	interceptors: Record<string, MockReplyChain>;
+	/**
+	 * Intercepts an operation's method and path ahead of its generated reply,
+	 * e.g. `operation('getUser').reply(404)`.
+	 */
+	operation(key: string, options?: Omit<InterceptOptions, 'path' | 'method'>): MockInterceptor;
 }
 
 export type NetConnectMatcher = true | false | string | RegExp | ((host: string) => boolean);
@@ -76,6 +430,18 @@ export interface ActivateOptions {
 	 * Default: false.
 	 */
 	forceConnectionClose?: boolean;
+	/**
+	 * Order in which interceptors of equal `priority` are tried. `'lifo'`
+	 * tries the newest first, so per-test interceptors override persisted
+	 * defaults registered earlier. Default: `'fifo'`.
+	 */
+	dispatchOrder?: 'fifo' | 'lifo';
+	/**
+	 * Record requests no interceptor matched in the call history, marked
+	 * `matched: false` (and `passthrough: true` when sent to the network).
+	 * Default: false.
+	 */
+	recordUnmatched?: boolean;
 }
 
 export interface ResolvedActivateOptions {
@@ -106,6 +472,8 @@ export interface MswAdapter {
 	resetHandlers(...handlers: Array<unknown>): void;
 	activate(options: ResolvedActivateOptions): void | Promise<void>;
 	deactivate(): void;
+	/** Sends a request to the network, skipping interception. Required for recording. */
+	bypass?(request: Request): Promise<Response>;
 }
 
 /** Pluggable factory for MSW-version-specific handler and response creation */
@@ -117,5 +485,11 @@ export interface HandlerFactory {
 	): unknown;
 	createCatchAllHandler(handlerFn: (request: Request) => Promise<Response | undefined>): unknown;
 	buildResponse(status: number, body: unknown, headers?: Headers): Response;
-	buildErrorResponse(): Response;
+	/** Optional: factories without it reply to `replyStream()` with a plain `Response`. */
+	buildStreamResponse?(
+		status: number,
+		stream: ReadableStream<Uint8Array>,
+		headers?: Headers,
+	): Response;
+	buildErrorResponse(error?: Error): Response;
 }
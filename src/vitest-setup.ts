@@ -0,0 +1,18 @@
+import { afterAll, afterEach, beforeAll, beforeEach, expect } from 'vitest';
+import { vitestTestFailed } from './lifecycle';
+import { setupFetchMock } from './node';
+
+/**
+ * Vitest setup file (`test.setupFiles: ['msw-fetch-mock/vitest/setup']`) that
+ * wires the `fetchMock` singleton into every test file's lifecycle.
+ */
+setupFetchMock({
+	runner: {
+		beforeAll,
+		beforeEach,
+		afterEach,
+		afterAll,
+		testName: () => expect.getState().currentTestName,
+		testFailed: vitestTestFailed,
+	},
+});
@@ -0,0 +1,12 @@
+import { expect } from 'vitest';
+import { type FetchMockMatchers, fetchMatchers } from './fetch-matchers';
+
+export type { CallCriteria, FetchMockMatchers } from './fetch-matchers';
+export { fetchMatchers } from './fetch-matchers';
+
+expect.extend(fetchMatchers);
+
+declare module 'vitest' {
+	// biome-ignore lint/suspicious/noExplicitAny: must match Vitest's own declaration
+	interface Matchers<T = any> extends FetchMockMatchers<T> {}
+}
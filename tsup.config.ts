@@ -7,10 +7,14 @@ export default defineConfig({
 		browser: 'src/browser.ts',
 		legacy: 'src/legacy.ts',
 		native: 'src/native.ts',
+		vitest: 'src/vitest.ts',
+		jest: 'src/jest.ts',
+		'vitest-setup': 'src/vitest-setup.ts',
+		'jest-setup': 'src/jest-setup.ts',
 	},
 	format: ['esm', 'cjs'],
 	dts: true,
 	clean: true,
-	external: ['msw', 'msw/node', 'msw/browser'],
+	external: ['msw', 'msw/node', 'msw/browser', 'vitest'],
 	splitting: true,
 });